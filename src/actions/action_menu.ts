@@ -8,6 +8,7 @@ import {ShortcutRegistry, utils as BlocklyUtils, WidgetDiv} from 'blockly';
 import * as Constants from '../constants';
 import type {WorkspaceSvg} from 'blockly';
 import {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
 
 const KeyCodes = BlocklyUtils.KeyCodes;
 const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
@@ -23,7 +24,10 @@ export class ActionMenu {
    */
   private shortcutName = Constants.SHORTCUT_NAMES.MENU;
 
-  constructor(private navigation: Navigation) {}
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
 
   /**
    * Install this action.
@@ -96,6 +100,7 @@ export class ActionMenu {
       node.showContextMenu(menuOpenEvent);
     } else {
       console.info(`No action menu for node ${node}`);
+      this.announcer.announce('No actions available here', 'assertive');
       return false;
     }
 
@@ -16,6 +16,7 @@ import type {Toolbox, WorkspaceSvg} from 'blockly/core';
 import * as Blockly from 'blockly/core';
 import * as Constants from '../constants';
 import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
 
 const KeyCodes = BlocklyUtils.KeyCodes;
 
@@ -23,7 +24,10 @@ const KeyCodes = BlocklyUtils.KeyCodes;
  * Class for registering shortcuts for navigating the workspace with arrow keys.
  */
 export class ArrowNavigation {
-  constructor(private navigation: Navigation) {}
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
 
   /**
    * Gives the cursor to the field to handle if the cursor is on a field.
@@ -268,10 +272,32 @@ export class ArrowNavigation {
     };
 
     for (const shortcut of Object.values(shortcuts)) {
-      ShortcutRegistry.registry.register(shortcut);
+      ShortcutRegistry.registry.register(this.withAnnouncement(shortcut));
     }
   }
 
+  /**
+   * Wraps a shortcut so that the newly focused node is announced after the
+   * shortcut moves the cursor.
+   *
+   * @param shortcut The shortcut to wrap.
+   * @returns The wrapped shortcut.
+   */
+  private withAnnouncement(
+    shortcut: ShortcutRegistry.KeyboardShortcut,
+  ): ShortcutRegistry.KeyboardShortcut {
+    const callback = shortcut.callback;
+    if (!callback) return shortcut;
+    return {
+      ...shortcut,
+      callback: (workspace, e, keyboardShortcut, scope) => {
+        const handled = callback(workspace, e, keyboardShortcut, scope);
+        if (handled) this.announcer.announceFocusedNode();
+        return handled;
+      },
+    };
+  }
+
   /**
    * Removes all the arrow navigation shortcuts.
    */
@@ -0,0 +1,264 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  ContextMenu,
+  ContextMenuRegistry,
+  ShortcutRegistry,
+  WorkspaceSvg,
+  dialog,
+  keyboardNavigationController,
+  registry,
+  utils,
+} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {BOOKMARKS_SERIALIZER_NAME, Bookmarks} from '../bookmarks';
+import {getNavigableBlock} from '../block_search';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/** The digit keys used for numbered bookmarks. */
+const DIGIT_KEYS = [
+  KeyCodes.ONE,
+  KeyCodes.TWO,
+  KeyCodes.THREE,
+  KeyCodes.FOUR,
+  KeyCodes.FIVE,
+  KeyCodes.SIX,
+  KeyCodes.SEVEN,
+  KeyCodes.EIGHT,
+  KeyCodes.NINE,
+];
+
+/**
+ * Actions for bookmarking blocks and jumping back to them.
+ *
+ * Shift and a digit bookmarks the current block under that number, and the
+ * digit on its own jumps back to it. Bookmarks can also be given names, and
+ * all bookmarks are listed in a menu.
+ */
+export class BookmarkAction {
+  /** The bookmarks on each workspace. */
+  private bookmarks = new Bookmarks();
+
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /** Bookmark the current block under the number pressed. */
+    {
+      name: Constants.SHORTCUT_NAMES.SET_BOOKMARK,
+      preconditionFn: (workspace) => !!this.getBookmarkableBlock(workspace),
+      callback: (workspace, e) => {
+        const name = getDigit(e);
+        if (!name) return false;
+        return this.setBookmark(workspace, name);
+      },
+      keyCodes: DIGIT_KEYS.map((key) =>
+        createSerializedKey(key, [KeyCodes.SHIFT]),
+      ),
+    },
+    /** Jump to the block bookmarked under the number pressed. */
+    {
+      name: Constants.SHORTCUT_NAMES.GO_TO_BOOKMARK,
+      preconditionFn: (workspace) => this.canJump(workspace),
+      callback: (workspace, e) => {
+        const name = getDigit(e);
+        if (!name) return false;
+        return this.goToBookmark(workspace, name);
+      },
+      keyCodes: DIGIT_KEYS,
+    },
+    /** Ask for a name and bookmark the current block under it. */
+    {
+      name: Constants.SHORTCUT_NAMES.NAME_BOOKMARK,
+      preconditionFn: (workspace) => !!this.getBookmarkableBlock(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        dialog.prompt('Bookmark name:', '', (name) => {
+          name = name?.trim() ?? '';
+          if (name) this.setBookmark(workspace, name);
+        });
+        return true;
+      },
+      keyCodes: [createSerializedKey(KeyCodes.K, [KeyCodes.SHIFT])],
+    },
+    /** Show a menu of the bookmarks. */
+    {
+      name: Constants.SHORTCUT_NAMES.LIST_BOOKMARKS,
+      preconditionFn: (workspace) => this.canJump(workspace),
+      callback: (workspace, e) => {
+        keyboardNavigationController.setIsActive(true);
+        return this.showBookmarkMenu(workspace, e);
+      },
+      keyCodes: [KeyCodes.K],
+    },
+  ];
+
+  /**
+   * Install the shortcuts, and save bookmarks with the workspace.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+    // Replace the serializer of any other controller that wasn't disposed.
+    registry.register(
+      registry.Type.SERIALIZER,
+      BOOKMARKS_SERIALIZER_NAME,
+      this.bookmarks,
+      true,
+    );
+  }
+
+  /**
+   * Uninstall the shortcuts, and stop saving bookmarks.
+   */
+  uninstall() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+    const serializer = registry.getObject(
+      registry.Type.SERIALIZER,
+      BOOKMARKS_SERIALIZER_NAME,
+    );
+    if (serializer === this.bookmarks) {
+      registry.unregister(registry.Type.SERIALIZER, BOOKMARKS_SERIALIZER_NAME);
+    }
+  }
+
+  /**
+   * Returns the bookmarks.
+   *
+   * @returns The bookmarks on all workspaces.
+   */
+  getBookmarks(): Bookmarks {
+    return this.bookmarks;
+  }
+
+  /**
+   * Bookmarks the current block.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @param name The name of the bookmark.
+   * @returns True if a bookmark was set.
+   */
+  setBookmark(workspace: WorkspaceSvg, name: string): boolean {
+    const block = this.getBookmarkableBlock(workspace);
+    if (!block) return false;
+    this.bookmarks.set(workspace, name, block.id);
+    this.announcer.announceNode(block, `Bookmark ${name} set on`);
+    return true;
+  }
+
+  /**
+   * Moves the cursor to a bookmarked block.
+   *
+   * @param workspace The workspace to move the cursor on.
+   * @param name The name of the bookmark.
+   * @returns True if the cursor moved.
+   */
+  goToBookmark(workspace: WorkspaceSvg, name: string): boolean {
+    const bookmarked = this.bookmarks.getBlock(workspace, name);
+    const block = bookmarked ? getNavigableBlock(bookmarked) : null;
+    if (!block) {
+      this.announcer.announce(`No bookmark ${name}`, 'assertive');
+      return false;
+    }
+    if (block !== workspace.getCursor().getCurNode()) {
+      this.navigation.getHistory().record(workspace);
+    }
+    workspace.getCursor().setCurNode(block);
+    this.announcer.announceNode(block, `Bookmark ${name},`);
+    return true;
+  }
+
+  /**
+   * Shows a menu of the bookmarks on a workspace, next to the cursor.
+   *
+   * @param workspace The workspace to list the bookmarks of.
+   * @param e The event that opened the menu.
+   * @returns True if the menu was shown.
+   */
+  private showBookmarkMenu(workspace: WorkspaceSvg, e: Event): boolean {
+    const describer = this.announcer.getDescriber();
+    const scope: ContextMenuRegistry.Scope = {workspace};
+    const options: ContextMenuRegistry.ContextMenuOption[] = [];
+    for (const name of this.bookmarks.getNames(workspace)) {
+      const block = this.bookmarks.getBlock(workspace, name);
+      if (!block) continue;
+      options.push({
+        text: `${name}: ${describer.getBlockLabel(block)}`,
+        enabled: true,
+        callback: () => this.goToBookmark(workspace, name),
+        scope,
+        weight: options.length,
+      });
+    }
+    if (!options.length) {
+      this.announcer.announce('No bookmarks', 'assertive');
+      return false;
+    }
+
+    const rect = workspace
+      .getCursor()
+      .getCurNode()
+      ?.getFocusableElement()
+      .getBoundingClientRect();
+    const location = rect
+      ? new utils.Coordinate(rect.left, rect.bottom)
+      : new utils.Coordinate(0, 0);
+    ContextMenu.show(e, options, workspace.RTL, workspace, location);
+    return true;
+  }
+
+  /**
+   * Returns whether the cursor can jump to a bookmark.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns True if the workspace can be navigated.
+   */
+  private canJump(workspace: WorkspaceSvg): boolean {
+    return (
+      !workspace.isFlyout &&
+      !workspace.isDragging() &&
+      this.navigation.canCurrentlyNavigate(workspace)
+    );
+  }
+
+  /**
+   * Returns the block a bookmark would be set on.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns The block the cursor is on or in, or null if there isn't one.
+   */
+  private getBookmarkableBlock(workspace: WorkspaceSvg): BlockSvg | null {
+    if (!this.canJump(workspace)) return null;
+    const block = workspace.getCursor().getSourceBlock();
+    return block ? getNavigableBlock(block) : null;
+  }
+}
+
+/**
+ * Returns the digit pressed in a keyboard event.
+ *
+ * @param e The event that triggered a shortcut.
+ * @returns The digit as a string, or null if a digit key wasn't pressed.
+ */
+function getDigit(e: Event): string | null {
+  if (!(e instanceof KeyboardEvent)) return null;
+  const digit = e.keyCode - KeyCodes.ZERO;
+  return digit >= 1 && digit <= 9 ? `${digit}` : null;
+}
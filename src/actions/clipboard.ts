@@ -5,19 +5,60 @@
  */
 
 import {
+  BlockSvg,
+  ContextMenu,
   ContextMenuRegistry,
+  Events,
+  FocusableTreeTraverser,
+  IFocusableNode,
   ShortcutRegistry,
   isCopyable,
+  keyboardNavigationController,
   Msg,
   ShortcutItems,
   WorkspaceSvg,
   clipboard,
+  comments,
   isSelectable,
+  browserEvents,
+  CodeGenerator,
+  getFocusManager,
+  ICopyData,
+  utils,
 } from 'blockly';
 import * as Constants from '../constants';
 import {Navigation} from '../navigation';
 import {getMenuItem} from '../shortcut_formatting';
-import {clearPasteHints, showCopiedHint, showCutHint} from '../hints';
+import {
+  clearPasteHints,
+  showCopiedHint,
+  showCutHint,
+  showPasteErrorHint,
+} from '../hints';
+import type {Announcer} from '../announcer';
+import {canChain, chainCopyData, deleteBlocks} from '../block_selection';
+import {ClipboardEntry, ClipboardHistory} from '../clipboard_history';
+import {
+  copyDataToText,
+  looksLikeBlockText,
+  textToCopyData,
+} from '../system_clipboard';
+import {
+  PASTE_PLACEMENTS,
+  PastePlacement,
+  getAllowedPlacements,
+  getPlacementTarget,
+} from '../paste_placement';
+import {
+  PASTE_COMPATIBILITY_POLICIES,
+  PasteCompatibilityName,
+  PasteCompatibilityPolicy,
+} from '../paste_compatibility';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
 
 /**
  * Weight for the first of these three items in the context menu.
@@ -27,9 +68,24 @@ import {clearPasteHints, showCopiedHint, showCutHint} from '../hints';
  */
 const BASE_WEIGHT = 12;
 
+/** Labels for the items in the paste placement menu. */
+const PLACEMENT_LABELS: Record<PastePlacement, string> = {
+  before: 'Paste above',
+  after: 'Paste below',
+  inside: 'Paste inside',
+  replace: 'Paste in place of block',
+  newStack: 'Paste as new stack',
+};
+
 /**
  * Logic and state for cut/copy/paste actions as both keyboard shortcuts
- * and context menu items.
+ * and context menu items. Cut and copy apply to every selected block if
+ * the focused block is selected. Recent cuts and copies are kept in a
+ * history that can be pasted from with a menu. Copied blocks are also put
+ * on the system clipboard as JSON, when the browser allows it, and block
+ * JSON copied from elsewhere can be pasted. Another menu asks where to put
+ * the paste relative to the focused block. If the app supplies a code
+ * generator, blocks can also be copied as generated code.
  * In the long term, this will likely merge with the clipboard code in core.
  */
 export class Clipboard {
@@ -37,11 +93,46 @@ export class Clipboard {
   private oldCopyShortcut: ShortcutRegistry.KeyboardShortcut | undefined;
   private oldPasteShortcut: ShortcutRegistry.KeyboardShortcut | undefined;
 
+  /** Recent cuts and copies, which can be pasted from a menu. */
+  private history = new ClipboardHistory();
+
+  /** The text last put on the system clipboard by a copy or cut. */
+  private systemClipboardText: string | null = null;
+
+  /**
+   * Whether something else may have been copied to the system clipboard
+   * since, because the page has lost focus or nothing has been put there.
+   */
+  private systemClipboardStale = true;
+
+  /**
+   * A keyboard paste from Blockly's clipboard, waiting to see whether the
+   * paste event that follows the key press brings block JSON instead.
+   */
+  private pendingPaste: (() => void) | null = null;
+
+  /**
+   * Whether a keyboard paste has just been done, so the paste event that
+   * follows the key press should be ignored.
+   */
+  private keyboardPasteDone = false;
+
+  /** Wrapper for method that deals with the browser's paste events. */
+  private pasteWrapper = this.onSystemPaste.bind(this);
+
+  /** Wrapper for method that notes the page losing focus. */
+  private blurWrapper = this.onWindowBlur.bind(this);
+
   constructor(
     private navigation: Navigation,
-    private options: {allowCrossWorkspacePaste: boolean} = {
+    private options: {
+      allowCrossWorkspacePaste: boolean;
+      pasteCompatibility?: PasteCompatibilityName | PasteCompatibilityPolicy;
+      codeGenerator?: CodeGenerator;
+    } = {
       allowCrossWorkspacePaste: false,
     },
+    private announcer: Announcer,
   ) {}
 
   /**
@@ -50,12 +141,20 @@ export class Clipboard {
   install() {
     this.registerCopyShortcut();
     this.registerCopyContextMenuAction();
+    this.registerCopyAsCodeShortcut();
+    this.registerCopyAsCodeContextMenuAction();
 
     this.registerPasteShortcut();
     this.registerPasteContextMenuAction();
 
     this.registerCutShortcut();
     this.registerCutContextMenuAction();
+
+    this.registerPasteFromHistoryShortcut();
+    this.registerPasteWithPlacementShortcut();
+
+    document.addEventListener('paste', this.pasteWrapper);
+    window.addEventListener('blur', this.blurWrapper);
   }
 
   /**
@@ -65,11 +164,21 @@ export class Clipboard {
   uninstall() {
     ContextMenuRegistry.registry.unregister('blockCutFromContextMenu');
     ContextMenuRegistry.registry.unregister('blockCopyFromContextMenu');
+    ContextMenuRegistry.registry.unregister('blockCopyAsCodeFromContextMenu');
     ContextMenuRegistry.registry.unregister('blockPasteFromContextMenu');
 
     ShortcutRegistry.registry.unregister(Constants.SHORTCUT_NAMES.CUT);
     ShortcutRegistry.registry.unregister(Constants.SHORTCUT_NAMES.COPY);
+    ShortcutRegistry.registry.unregister(Constants.SHORTCUT_NAMES.COPY_AS_CODE);
     ShortcutRegistry.registry.unregister(Constants.SHORTCUT_NAMES.PASTE);
+    ShortcutRegistry.registry.unregister(
+      Constants.SHORTCUT_NAMES.PASTE_FROM_HISTORY,
+    );
+    ShortcutRegistry.registry.unregister(
+      Constants.SHORTCUT_NAMES.PASTE_WITH_PLACEMENT,
+    );
+    document.removeEventListener('paste', this.pasteWrapper);
+    window.removeEventListener('blur', this.blurWrapper);
 
     if (this.oldCutShortcut) {
       ShortcutRegistry.registry.register(this.oldCutShortcut);
@@ -173,11 +282,26 @@ export class Clipboard {
     },
     scope: ContextMenuRegistry.Scope,
   ) {
+    const blocks = this.getSelectedBlocks(scope);
+    if (blocks.length > 1 && blocks.every((block) => block.isDeletable())) {
+      if (!this.copyBlocks(workspace, blocks)) return false;
+      this.recordCopy(workspace, this.summarize(blocks[0], blocks.length));
+      deleteBlocks(blocks);
+      showCutHint(workspace);
+      this.announcer.announce(`Cut ${blocks.length} blocks`);
+      return true;
+    }
+    // Describe what is cut before it is deleted.
+    const summary = this.summarize(scope.focusedNode);
     const didCut =
       !!this.oldCutShortcut?.callback &&
       this.oldCutShortcut.callback(workspace, e, shortcut, scope);
     if (didCut) {
+      this.recordCopy(workspace, summary);
       showCutHint(workspace);
+      this.announcer.announce('Cut');
+    } else {
+      this.announcer.announce('Nothing to cut', 'assertive');
     }
     return didCut;
   }
@@ -230,6 +354,103 @@ export class Clipboard {
     ContextMenuRegistry.registry.register(copyAction);
   }
 
+  /**
+   * Create and register the keyboard shortcut that copies the code generated
+   * for the focused block.
+   */
+  private registerCopyAsCodeShortcut() {
+    const shortcut: ShortcutRegistry.KeyboardShortcut = {
+      name: Constants.SHORTCUT_NAMES.COPY_AS_CODE,
+      preconditionFn: (workspace, scope) =>
+        this.navigation.canCurrentlyNavigate(workspace) &&
+        !!this.getCodeBlocks(scope.focusedNode),
+      callback: (workspace, e, shortcut, scope) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        const blocks = this.getCodeBlocks(scope.focusedNode);
+        return !!blocks && this.copyAsCode(blocks);
+      },
+      keyCodes: [
+        createSerializedKey(KeyCodes.C, [KeyCodes.CTRL, KeyCodes.ALT]),
+        createSerializedKey(KeyCodes.C, [KeyCodes.META, KeyCodes.ALT]),
+      ],
+    };
+    ShortcutRegistry.registry.register(shortcut);
+  }
+
+  /**
+   * Register the copy as code action as a context menu item on blocks.
+   */
+  private registerCopyAsCodeContextMenuAction() {
+    const copyAsCodeAction: ContextMenuRegistry.RegistryItem = {
+      displayText: () =>
+        getMenuItem('Copy as code', Constants.SHORTCUT_NAMES.COPY_AS_CODE),
+      preconditionFn: (scope) =>
+        this.getCodeBlocks(scope.focusedNode) ? 'enabled' : 'hidden',
+      callback: (scope) => {
+        const blocks = this.getCodeBlocks(scope.focusedNode);
+        return !!blocks && this.copyAsCode(blocks);
+      },
+      id: 'blockCopyAsCodeFromContextMenu',
+      weight: BASE_WEIGHT + 1.5,
+    };
+
+    ContextMenuRegistry.registry.register(copyAsCodeAction);
+  }
+
+  /**
+   * Returns the blocks that copying as code applies to.
+   *
+   * @param node The focused node.
+   * @returns The selected blocks if the focused block is selected, otherwise
+   *     the focused block, or null if a block isn't focused or there is no
+   *     code generator.
+   */
+  private getCodeBlocks(node: IFocusableNode | undefined): BlockSvg[] | null {
+    if (!this.options.codeGenerator || !(node instanceof BlockSvg)) {
+      return null;
+    }
+    return this.navigation.getSelection().getTargets(node);
+  }
+
+  /**
+   * Puts the code generated for some blocks on the system clipboard. Each
+   * block's code doesn't include the blocks after it.
+   *
+   * @param blocks The blocks to generate code for.
+   * @returns True if there was a code generator to use.
+   */
+  private copyAsCode(blocks: BlockSvg[]): boolean {
+    const generator = this.options.codeGenerator;
+    if (!generator) return false;
+    let text;
+    try {
+      generator.init(blocks[0].workspace);
+      const code = blocks
+        .map((block) => {
+          const result = generator.blockToCode(block, true);
+          return Array.isArray(result) ? result[0] : result;
+        })
+        .join('');
+      // Adds any definitions the code relies on, such as variables.
+      text = generator.finish(code).trim();
+    } catch {
+      // The generator throws for block types it doesn't know.
+      this.announcer.announce("Couldn't copy code", 'assertive');
+      return true;
+    }
+
+    if (!navigator.clipboard?.writeText) {
+      this.announcer.announce("Couldn't copy code", 'assertive');
+      return true;
+    }
+    navigator.clipboard.writeText(text).then(
+      () => this.announcer.announce('Copied code'),
+      () => this.announcer.announce("Couldn't copy code", 'assertive'),
+    );
+    return true;
+  }
+
   /**
    * Precondition function for the copy context menu. This wraps the core copy
    * precondition to support context menus.
@@ -271,18 +492,67 @@ export class Clipboard {
     },
     scope: ContextMenuRegistry.Scope,
   ) {
+    const blocks = this.getSelectedBlocks(scope);
+    if (blocks.length > 1) {
+      if (!this.copyBlocks(workspace, blocks)) return false;
+      this.recordCopy(workspace, this.summarize(blocks[0], blocks.length));
+      showCopiedHint(workspace);
+      this.announcer.announce(`Copied ${blocks.length} blocks`);
+      return true;
+    }
     const didCopy =
       !!this.oldCopyShortcut?.callback &&
       this.oldCopyShortcut.callback(workspace, e, shortcut, scope);
     if (didCopy) {
+      this.recordCopy(workspace, this.summarize(scope.focusedNode));
       showCopiedHint(workspace);
+      this.announcer.announce('Copied');
+    } else {
+      this.announcer.announce('Nothing to copy', 'assertive');
     }
     return didCopy;
   }
 
+  /**
+   * Returns the selected blocks that a cut or copy should apply to.
+   *
+   * @param scope scope of the shortcut or context menu item
+   * @returns The selected blocks if the focused block is selected, only the
+   *     focused block if it isn't, or nothing if a block isn't focused.
+   */
+  private getSelectedBlocks(scope: ContextMenuRegistry.Scope): BlockSvg[] {
+    const focused = scope.focusedNode;
+    if (!(focused instanceof BlockSvg)) return [];
+    return this.navigation.getSelection().getTargets(focused);
+  }
+
+  /**
+   * Puts several blocks on the clipboard, to be pasted as a single stack.
+   *
+   * @param workspace Workspace where the blocks are.
+   * @param blocks The blocks to copy, in order.
+   * @returns true if the blocks were copied, false otherwise
+   */
+  private copyBlocks(workspace: WorkspaceSvg, blocks: BlockSvg[]): boolean {
+    const data = canChain(blocks) ? chainCopyData(blocks) : null;
+    if (!data) {
+      this.announcer.announce(
+        "These blocks can't be copied together",
+        'assertive',
+      );
+      return false;
+    }
+    workspace.hideChaff();
+    clipboard.setLastCopiedData(data);
+    clipboard.setLastCopiedWorkspace(workspace);
+    clipboard.setLastCopiedLocation(blocks[0].getRelativeToSurfaceXY());
+    return true;
+  }
+
   /**
    * Create and register the keyboard shortcut for the paste action.
-   * Identical to the one in core but clears any paste toasts after.
+   * Like the one in core, but also checks the paste compatibility policy
+   * and clears any paste toasts after.
    */
   private registerPasteShortcut() {
     this.oldPasteShortcut =
@@ -290,9 +560,12 @@ export class Clipboard {
     if (!this.oldPasteShortcut)
       throw new Error('No paste keyboard shortcut registered initially');
 
+    const oldPrecondition = this.oldPasteShortcut.preconditionFn;
     const pasteShortcut: ShortcutRegistry.KeyboardShortcut = {
       name: Constants.SHORTCUT_NAMES.PASTE,
-      preconditionFn: this.oldPasteShortcut.preconditionFn,
+      preconditionFn: (workspace, scope) =>
+        (!oldPrecondition || oldPrecondition(workspace, scope)) &&
+        !this.getClipboardPasteProblem(workspace),
       callback: this.pasteCallback.bind(this),
       keyCodes: this.oldPasteShortcut.keyCodes,
       allowCollision: false,
@@ -311,8 +584,17 @@ export class Clipboard {
    */
   private registerPasteContextMenuAction() {
     const pasteAction: ContextMenuRegistry.RegistryItem = {
-      displayText: (scope) =>
-        getMenuItem(Msg['PASTE_SHORTCUT'], Constants.SHORTCUT_NAMES.PASTE),
+      displayText: (scope) => {
+        const item = getMenuItem(
+          Msg['PASTE_SHORTCUT'],
+          Constants.SHORTCUT_NAMES.PASTE,
+        );
+        const workspace = this.getPasteWorkspace(scope);
+        const problem = workspace && this.getClipboardPasteProblem(workspace);
+        // Explain why the item is disabled.
+        if (problem) item.firstElementChild?.append(` — ${problem}`);
+        return item;
+      },
       preconditionFn: (scope) => this.pastePrecondition(scope),
       callback: (scope: ContextMenuRegistry.Scope, menuOpenEvent: Event) => {
         const workspace = this.getPasteWorkspace(scope);
@@ -361,14 +643,7 @@ export class Clipboard {
     // Don't paste into flyouts.
     if (workspace.isFlyout) return 'hidden';
 
-    if (!this.options.allowCrossWorkspacePaste) {
-      // Only paste into the same workspace that was copied from
-      // or the parent workspace of a flyout that was copied from.
-      let copiedWorkspace = clipboard.getLastCopiedWorkspace();
-      if (copiedWorkspace?.isFlyout)
-        copiedWorkspace = copiedWorkspace.targetWorkspace;
-      if (copiedWorkspace !== workspace) return 'disabled';
-    }
+    if (this.getClipboardPasteProblem(workspace)) return 'disabled';
 
     if (
       this.oldPasteShortcut?.preconditionFn &&
@@ -380,14 +655,18 @@ export class Clipboard {
   }
 
   /**
-   * The callback for the paste action. Uses the registered version of the paste callback
-   * to perform the paste logic, then clears any toasts about pasting.
+   * The callback for the paste action.
+   *
+   * If something else may have been copied to the system clipboard since the
+   * last copy, keyboard pastes wait for the browser's paste event, which
+   * pastes block JSON from the system clipboard instead if it has any. Pastes
+   * that no paste event will follow happen straight away.
    *
    * @param workspace Workspace where shortcut happened.
    * @param e menu open event or keyboard event
    * @param shortcut keyboard shortcut or undefined for context menus
    * @param scope scope of the shortcut or context menu item
-   * @returns true if a paste happened, false otherwise
+   * @returns true if a paste happened or is waiting, false otherwise
    */
   private pasteCallback(
     workspace: WorkspaceSvg,
@@ -397,14 +676,438 @@ export class Clipboard {
     },
     scope: ContextMenuRegistry.Scope,
   ) {
-    const didPaste =
-      !!this.oldPasteShortcut?.callback &&
-      this.oldPasteShortcut.callback(workspace, e, shortcut, scope);
+    if (e instanceof PointerEvent) {
+      return this.pasteFromClipboard(workspace, e);
+    }
+    // The browser only follows a key press with a paste event if it is a
+    // real key press that nothing has handled yet.
+    const pasteEventFollows =
+      e instanceof KeyboardEvent && e.isTrusted && !e.defaultPrevented;
+    if (this.systemClipboardStale && pasteEventFollows) {
+      this.pendingPaste = () => {
+        if (!this.pasteFromClipboard(workspace, e)) {
+          this.announcer.announce("Couldn't paste", 'assertive');
+        }
+      };
+      // The paste event, if there is one, comes before this.
+      setTimeout(() => {
+        const paste = this.pendingPaste;
+        this.pendingPaste = null;
+        paste?.();
+      }, 0);
+      return true;
+    }
+    this.keyboardPasteDone = true;
+    setTimeout(() => (this.keyboardPasteDone = false), 0);
+    return this.pasteFromClipboard(workspace, e);
+  }
+
+  /**
+   * Pastes from Blockly's clipboard into a workspace, then clears any toasts
+   * about pasting. Blocks are placed like core's paste does, except that
+   * keyboard pastes while the cursor is on the workspace are placed at the
+   * workspace cursor instead.
+   *
+   * @param workspace Workspace where shortcut happened.
+   * @param e menu open event or keyboard event
+   * @returns true if a paste happened, false otherwise
+   */
+  private pasteFromClipboard(workspace: WorkspaceSvg, e: Event) {
+    // Pastes from a flyout go to its workspace.
+    const target = workspace.isFlyout ? workspace.targetWorkspace : workspace;
+    const copyData = clipboard.getLastCopiedData();
+    if (!target || !copyData || target.isReadOnly()) return false;
+    const origin = FocusableTreeTraverser.findFocusedNode(target);
+    const problem = this.getClipboardPasteProblem(target);
+    if (problem) {
+      this.announcer.announce(`Can't paste. ${problem}`, 'assertive');
+      return false;
+    }
+    const didPaste = !!clipboard.paste(
+      copyData,
+      target,
+      this.getPasteLocation(target, e),
+    );
 
     // Clear the paste hints regardless of whether something was pasted
     // Some implementations of paste are async and we should clear the hint
     // once the user initiates the paste action.
+    clearPasteHints(target);
+    if (didPaste) {
+      this.navigation.getHistory().record(target, origin);
+      this.announcer.announceFocusedNode('Pasted');
+    }
+    return didPaste;
+  }
+
+  /**
+   * Returns where a paste from Blockly's clipboard goes.
+   *
+   * Context menu pastes go where the menu was opened. Keyboard pastes onto
+   * the workspace itself go to the workspace cursor. Otherwise, like in core,
+   * the block goes where it was copied from if that is in view, or in the
+   * middle of the view if not.
+   *
+   * @param workspace The workspace to paste into.
+   * @param e menu open event or keyboard event
+   * @returns The location in workspace coordinates, or undefined to use the
+   *     location saved with the copied block.
+   */
+  private getPasteLocation(
+    workspace: WorkspaceSvg,
+    e: Event,
+  ): utils.Coordinate | undefined {
+    if (e instanceof PointerEvent) {
+      return utils.svgMath.screenToWsCoordinates(
+        workspace,
+        new utils.Coordinate(e.clientX, e.clientY),
+      );
+    }
+    const cursorLocation =
+      this.navigation.getWorkspaceCursorLocation(workspace);
+    if (cursorLocation) return cursorLocation;
+    const copiedLocation = clipboard.getLastCopiedLocation();
+    if (!copiedLocation) return undefined;
+    const {left, top, width, height} = workspace
+      .getMetricsManager()
+      .getViewMetrics(true);
+    const view = new utils.Rect(top, top + height, left, left + width);
+    return view.contains(copiedLocation.x, copiedLocation.y)
+      ? undefined
+      : new utils.Coordinate(left + width / 2, top + height / 2);
+  }
+
+  /**
+   * Returns why something copied from one workspace can't be pasted into
+   * another, according to the paste compatibility policy.
+   *
+   * @param data The copied data.
+   * @param copiedWorkspace The workspace it was copied from.
+   * @param workspace The workspace to paste into.
+   * @returns Null if pasting is allowed, otherwise why not.
+   */
+  private getPasteProblem(
+    data: ICopyData,
+    copiedWorkspace: WorkspaceSvg | null | undefined,
+    workspace: WorkspaceSvg,
+  ): string | null {
+    let policy =
+      this.options.pasteCompatibility ??
+      (this.options.allowCrossWorkspacePaste
+        ? 'anyWorkspace'
+        : 'sameWorkspace');
+    if (typeof policy === 'string') {
+      policy = PASTE_COMPATIBILITY_POLICIES[policy];
+    }
+    return policy(data, copiedWorkspace ?? null, workspace);
+  }
+
+  /**
+   * Returns why the clipboard can't be pasted into a workspace.
+   *
+   * @param workspace The workspace to paste into.
+   * @returns Null if it can be pasted or the clipboard is empty, otherwise
+   *     why not.
+   */
+  private getClipboardPasteProblem(workspace: WorkspaceSvg): string | null {
+    const data = clipboard.getLastCopiedData();
+    if (!data) return null;
+    return this.getPasteProblem(
+      data,
+      clipboard.getLastCopiedWorkspace(),
+      workspace,
+    );
+  }
+
+  /**
+   * Adds what was just put on the clipboard to the history, and puts it on
+   * the system clipboard.
+   *
+   * @param workspace Workspace it was copied from.
+   * @param summary Description of what was copied.
+   */
+  private recordCopy(workspace: WorkspaceSvg, summary: string) {
+    const data = clipboard.getLastCopiedData();
+    if (!data) return;
+    this.history.add({
+      data,
+      summary,
+      workspace: clipboard.getLastCopiedWorkspace() ?? workspace,
+    });
+    this.writeSystemClipboard(data);
+  }
+
+  /**
+   * Puts the JSON serialization of a copied block on the system clipboard,
+   * if the browser allows it.
+   *
+   * @param data The copied data.
+   */
+  private writeSystemClipboard(data: ICopyData) {
+    const text = copyDataToText(data);
+    if (!text || !navigator.clipboard?.writeText) return;
+    navigator.clipboard.writeText(text).then(
+      () => {
+        this.systemClipboardText = text;
+        this.systemClipboardStale = false;
+      },
+      () => {
+        // Not allowed. The copy is still on Blockly's clipboard.
+      },
+    );
+  }
+
+  /**
+   * Notes that something else may be copied to the system clipboard while
+   * the page doesn't have focus.
+   */
+  private onWindowBlur() {
+    this.systemClipboardStale = true;
+  }
+
+  /**
+   * Pastes block JSON from the system clipboard onto the focused workspace,
+   * unless it is what was last copied here.
+   *
+   * @param e The browser's paste event.
+   */
+  private onSystemPaste(e: ClipboardEvent) {
+    if (this.keyboardPasteDone || browserEvents.isTargetInput(e)) return;
+    const workspace = getFocusManager().getFocusedTree();
+    if (
+      !(workspace instanceof WorkspaceSvg) ||
+      workspace.isFlyout ||
+      !this.navigation.canCurrentlyEdit(workspace)
+    ) {
+      return;
+    }
+    const text = e.clipboardData?.getData('text/plain') ?? '';
+    // Leave anything else to a paste from Blockly's clipboard.
+    if (text === this.systemClipboardText || !looksLikeBlockText(text)) return;
+    e.preventDefault();
+    this.pendingPaste = null;
+
+    let data;
+    try {
+      data = textToCopyData(text);
+    } catch (error) {
+      const message = (error as Error).message;
+      showPasteErrorHint(workspace, message);
+      this.announcer.announce(message, 'assertive');
+      return;
+    }
+    const existing = new Set(workspace.getTopBlocks(false));
+    try {
+      this.pasteAtCursor(workspace, data);
+    } catch {
+      // JSON that doesn't match the block's definition can leave a half
+      // built block behind.
+      Events.disable();
+      try {
+        for (const block of workspace.getTopBlocks(false)) {
+          if (!existing.has(block)) block.dispose(false);
+        }
+      } finally {
+        Events.enable();
+      }
+      const message =
+        "The JSON on the clipboard doesn't match the blocks it names.";
+      showPasteErrorHint(workspace, message);
+      this.announcer.announce(message, 'assertive');
+      return;
+    }
+    // Later pastes of the same text can come from Blockly's clipboard.
+    clipboard.setLastCopiedData(data);
+    clipboard.setLastCopiedWorkspace(workspace);
+    this.systemClipboardText = text;
+    this.systemClipboardStale = false;
+  }
+
+  /**
+   * Describes something that is being copied, for the history menu.
+   *
+   * @param node The block or comment being copied.
+   * @param count How many blocks are being copied together.
+   * @returns The description.
+   */
+  private summarize(node: IFocusableNode | undefined, count = 1): string {
+    if (node instanceof BlockSvg) {
+      const label = this.announcer.getDescriber().getBlockLabel(node);
+      return count > 1 ? `${count} blocks from '${label}'` : label;
+    }
+    if (node instanceof comments.RenderedWorkspaceComment) {
+      return `Comment '${node.getText()}'`;
+    }
+    return 'Copied item';
+  }
+
+  /**
+   * Create and register the keyboard shortcut that shows a menu of recent
+   * cuts and copies to paste from.
+   */
+  private registerPasteFromHistoryShortcut() {
+    const shortcut: ShortcutRegistry.KeyboardShortcut = {
+      name: Constants.SHORTCUT_NAMES.PASTE_FROM_HISTORY,
+      preconditionFn: (workspace) =>
+        !workspace.isFlyout &&
+        !workspace.isDragging() &&
+        this.navigation.canCurrentlyEdit(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.showHistoryMenu(workspace, e);
+      },
+      keyCodes: [
+        createSerializedKey(KeyCodes.V, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.V, [KeyCodes.META, KeyCodes.SHIFT]),
+      ],
+    };
+    ShortcutRegistry.registry.register(shortcut);
+  }
+
+  /**
+   * Shows a menu of recent cuts and copies, next to the cursor.
+   *
+   * @param workspace The workspace to paste into.
+   * @param e The event that opened the menu.
+   * @returns True if the menu was shown.
+   */
+  private showHistoryMenu(workspace: WorkspaceSvg, e: Event): boolean {
+    const entries = this.history.getEntries();
+    if (!entries.length) {
+      this.announcer.announce('Clipboard history is empty', 'assertive');
+      return false;
+    }
+
+    const scope: ContextMenuRegistry.Scope = {workspace};
+    const options: ContextMenuRegistry.ContextMenuOption[] = entries.map(
+      (entry, i) => {
+        const problem = this.getPasteProblem(
+          entry.data,
+          entry.workspace,
+          workspace,
+        );
+        return {
+          text: `${i + 1}. ${entry.summary}${problem ? ` — ${problem}` : ''}`,
+          enabled: !problem,
+          callback: () => this.pasteFromHistory(workspace, entry),
+          scope,
+          weight: i,
+        };
+      },
+    );
+    const rect = workspace
+      .getCursor()
+      .getCurNode()
+      ?.getFocusableElement()
+      .getBoundingClientRect();
+    const location = rect
+      ? new utils.Coordinate(rect.left, rect.bottom)
+      : new utils.Coordinate(0, 0);
+    ContextMenu.show(e, options, workspace.RTL, workspace, location);
+    return true;
+  }
+
+  /**
+   * Pastes an entry from the history at the cursor.
+   *
+   * @param workspace The workspace to paste into.
+   * @param entry The cut or copy to paste.
+   * @returns True if a paste happened.
+   */
+  pasteFromHistory(workspace: WorkspaceSvg, entry: ClipboardEntry): boolean {
+    return this.pasteAtCursor(workspace, entry.data);
+  }
+
+  /**
+   * Create and register the keyboard shortcut that shows a menu of places
+   * to paste, relative to the focused block.
+   */
+  private registerPasteWithPlacementShortcut() {
+    const shortcut: ShortcutRegistry.KeyboardShortcut = {
+      name: Constants.SHORTCUT_NAMES.PASTE_WITH_PLACEMENT,
+      preconditionFn: (workspace) =>
+        !workspace.isFlyout &&
+        !workspace.isDragging() &&
+        this.navigation.canCurrentlyEdit(workspace) &&
+        !!clipboard.getLastCopiedData() &&
+        !this.getClipboardPasteProblem(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.showPlacementMenu(workspace, e);
+      },
+      keyCodes: [
+        createSerializedKey(KeyCodes.V, [KeyCodes.CTRL, KeyCodes.ALT]),
+        createSerializedKey(KeyCodes.V, [KeyCodes.META, KeyCodes.ALT]),
+      ],
+    };
+    ShortcutRegistry.registry.register(shortcut);
+  }
+
+  /**
+   * Shows a menu of places to paste the clipboard, next to the cursor.
+   * Places the connection checker doesn't allow are disabled.
+   *
+   * @param workspace The workspace to paste into.
+   * @param e The event that opened the menu.
+   * @returns True if the menu was shown.
+   */
+  private showPlacementMenu(workspace: WorkspaceSvg, e: Event): boolean {
+    const data = clipboard.getLastCopiedData();
+    if (!data) return false;
+    const node = workspace.getCursor().getCurNode();
+    const allowed = getAllowedPlacements(data, getPlacementTarget(node));
+
+    const scope: ContextMenuRegistry.Scope = {workspace};
+    const options: ContextMenuRegistry.ContextMenuOption[] =
+      PASTE_PLACEMENTS.map((placement, i) => ({
+        text: PLACEMENT_LABELS[placement],
+        enabled: allowed.includes(placement),
+        callback: () => this.pasteAtCursor(workspace, data, placement),
+        scope,
+        weight: i,
+      }));
+    const rect = node?.getFocusableElement().getBoundingClientRect();
+    const location = rect
+      ? new utils.Coordinate(rect.left, rect.bottom)
+      : new utils.Coordinate(0, 0);
+    ContextMenu.show(e, options, workspace.RTL, workspace, location);
+    return true;
+  }
+
+  /**
+   * Pastes copied data at the cursor.
+   *
+   * @param workspace The workspace to paste into.
+   * @param data The data to paste.
+   * @param placement Where to put it relative to the block at the cursor,
+   *     instead of guessing.
+   * @returns True if a paste happened.
+   */
+  private pasteAtCursor(
+    workspace: WorkspaceSvg,
+    data: ICopyData,
+    placement?: PastePlacement,
+  ): boolean {
+    const origin = FocusableTreeTraverser.findFocusedNode(workspace);
+    const didPaste = this.navigation.paste(data, workspace, placement);
     clearPasteHints(workspace);
+    if (didPaste) {
+      this.navigation.getHistory().record(workspace, origin);
+      this.announcer.announceFocusedNode('Pasted');
+    } else {
+      this.announcer.announce("Couldn't paste", 'assertive');
+    }
     return didPaste;
   }
+
+  /**
+   * Returns the recent cuts and copies.
+   *
+   * @returns The history.
+   */
+  getHistory(): ClipboardHistory {
+    return this.history;
+  }
 }
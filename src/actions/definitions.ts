@@ -0,0 +1,296 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  FieldVariable,
+  IFocusableNode,
+  IVariableModel,
+  IVariableState,
+  Procedures,
+  ShortcutRegistry,
+  Variables,
+  WorkspaceSvg,
+  keyboardNavigationController,
+  utils,
+} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {findBlocks, getNavigableBlock} from '../block_search';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/**
+ * The procedure or variable that a node refers to.
+ */
+type Reference =
+  | {kind: 'procedure'; name: string}
+  | {kind: 'variable'; variable: IVariableModel<IVariableState>};
+
+/**
+ * Actions for jumping from a procedure call or variable block to the block
+ * that defines it, and for moving between the places it is used.
+ */
+export class DefinitionAction {
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /** Go to the definition of the procedure or variable at the cursor. */
+    {
+      name: Constants.SHORTCUT_NAMES.GO_TO_DEFINITION,
+      preconditionFn: (workspace) => this.canUse(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.goToDefinition(workspace);
+      },
+      keyCodes: [KeyCodes.G],
+    },
+    /** Go to the next use of the procedure or variable at the cursor. */
+    {
+      name: Constants.SHORTCUT_NAMES.FIND_USAGES,
+      preconditionFn: (workspace) => this.canUse(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.goToNextUsage(workspace);
+      },
+      keyCodes: [createSerializedKey(KeyCodes.G, [KeyCodes.SHIFT])],
+    },
+  ];
+
+  /**
+   * Install the shortcuts.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+  }
+
+  /**
+   * Uninstall the shortcuts.
+   */
+  uninstall() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+  }
+
+  /**
+   * Finds the block that defines the procedure or variable a node refers to.
+   *
+   * A procedure is defined by its definition block. A variable is defined by
+   * the first block in workspace order that sets or declares it, such as a
+   * set block, a loop or a procedure with it as a parameter.
+   *
+   * @param workspace The workspace to search.
+   * @param node The node the cursor is on.
+   * @returns The defining block, or null if there isn't one.
+   */
+  findDefinition(
+    workspace: WorkspaceSvg,
+    node: IFocusableNode,
+  ): BlockSvg | null {
+    const reference = getReference(workspace, node);
+    if (!reference) return null;
+    if (reference.kind === 'procedure') {
+      const definition = Procedures.getDefinition(reference.name, workspace);
+      return definition instanceof BlockSvg
+        ? getNavigableBlock(definition)
+        : null;
+    }
+    const uses = new Set(
+      Variables.getVariableUsesById(workspace, reference.variable.getId()),
+    );
+    return (
+      findBlocks(
+        workspace,
+        (block) => uses.has(block) && !block.outputConnection,
+      )[0] ?? null
+    );
+  }
+
+  /**
+   * Finds the blocks that use the procedure or variable a node refers to.
+   *
+   * @param workspace The workspace to search.
+   * @param node The node the cursor is on.
+   * @returns The call sites of a procedure, or the blocks that use a
+   *     variable, in workspace order.
+   */
+  findUsages(workspace: WorkspaceSvg, node: IFocusableNode): BlockSvg[] {
+    const reference = getReference(workspace, node);
+    if (!reference) return [];
+    const uses = new Set(
+      reference.kind === 'procedure'
+        ? Procedures.getCallers(reference.name, workspace)
+        : Variables.getVariableUsesById(workspace, reference.variable.getId()),
+    );
+    return findBlocks(workspace, (block) => uses.has(block));
+  }
+
+  /**
+   * Moves the cursor to the definition of the procedure or variable it is on.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @returns True if the cursor moved.
+   */
+  private goToDefinition(workspace: WorkspaceSvg): boolean {
+    const node = workspace.getCursor().getCurNode();
+    if (!node) return false;
+    const definition = this.findDefinition(workspace, node);
+    if (!definition) {
+      this.announcer.announce(
+        `No definition for ${getReferenceName(workspace, node)}`,
+        'assertive',
+      );
+      return false;
+    }
+    this.goTo(workspace, definition, 'Definition,');
+    return true;
+  }
+
+  /**
+   * Moves the cursor to the use of the procedure or variable it is on that
+   * comes after the current one, wrapping around at the end.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @returns True if the cursor moved.
+   */
+  private goToNextUsage(workspace: WorkspaceSvg): boolean {
+    const cursor = workspace.getCursor();
+    const node = cursor.getCurNode();
+    if (!node) return false;
+    const usages = this.findUsages(workspace, node);
+    if (!usages.length) {
+      this.announcer.announce(
+        `No usages of ${getReferenceName(workspace, node)}`,
+        'assertive',
+      );
+      return false;
+    }
+
+    const current = cursor.getSourceBlock();
+    const currentIndex = current
+      ? usages.indexOf(getNavigableBlock(current) ?? current)
+      : -1;
+    const index = (currentIndex + 1) % usages.length;
+    this.goTo(
+      workspace,
+      usages[index],
+      `Usage ${index + 1} of ${usages.length},`,
+    );
+    return true;
+  }
+
+  /**
+   * Moves the cursor to a block, remembering where it was, and announces it.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @param block The block to move to.
+   * @param prefix Text to announce before the block's description.
+   */
+  private goTo(workspace: WorkspaceSvg, block: BlockSvg, prefix: string) {
+    const cursor = workspace.getCursor();
+    if (block !== cursor.getCurNode()) {
+      this.navigation.getHistory().record(workspace);
+    }
+    cursor.setCurNode(block);
+    this.announcer.announceNode(block, prefix);
+  }
+
+  /**
+   * Returns whether the shortcuts can be used.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns True if the cursor is on a procedure or variable.
+   */
+  private canUse(workspace: WorkspaceSvg): boolean {
+    if (workspace.isFlyout || workspace.isDragging()) return false;
+    if (!this.navigation.canCurrentlyNavigate(workspace)) return false;
+    const node = workspace.getCursor().getCurNode();
+    return !!node && !!getReference(workspace, node);
+  }
+}
+
+/**
+ * Returns the procedure or variable a node refers to.
+ *
+ * A variable field refers to its variable. A block refers to the procedure
+ * it calls or defines, or else to the first variable it uses.
+ *
+ * @param workspace The workspace the node is on.
+ * @param node The node to check.
+ * @returns The procedure or variable, or null if there isn't one.
+ */
+function getReference(
+  workspace: WorkspaceSvg,
+  node: IFocusableNode,
+): Reference | null {
+  if (node instanceof FieldVariable) {
+    const variable = node.getVariable();
+    return variable ? {kind: 'variable', variable} : null;
+  }
+  const block = workspace.getCursor().getSourceBlockFromNode(node);
+  if (!block) return null;
+  const procedureName = getProcedureName(block);
+  if (procedureName) return {kind: 'procedure', name: procedureName};
+  const variable = block.getVarModels()[0];
+  return variable ? {kind: 'variable', variable} : null;
+}
+
+/**
+ * Returns the name of the procedure or variable a node refers to, to
+ * announce.
+ *
+ * @param workspace The workspace the node is on.
+ * @param node The node to check.
+ * @returns The name, or 'this block' if it doesn't refer to anything.
+ */
+function getReferenceName(
+  workspace: WorkspaceSvg,
+  node: IFocusableNode,
+): string {
+  const reference = getReference(workspace, node);
+  if (!reference) return 'this block';
+  return reference.kind === 'procedure'
+    ? reference.name
+    : reference.variable.getName();
+}
+
+/**
+ * Returns the name of the procedure a block calls or defines.
+ *
+ * This supports the built-in procedure blocks and any custom blocks that
+ * implement getProcedureCall or getProcedureDef in the same way.
+ *
+ * @param block The block to check.
+ * @returns The procedure name, or null if the block isn't a procedure block.
+ */
+function getProcedureName(block: BlockSvg): string | null {
+  if (
+    'getProcedureCall' in block &&
+    typeof block.getProcedureCall === 'function'
+  ) {
+    return block.getProcedureCall() as string;
+  }
+  if (
+    'getProcedureDef' in block &&
+    typeof block.getProcedureDef === 'function'
+  ) {
+    const [name] = block.getProcedureDef() as [string, ...unknown[]];
+    return name;
+  }
+  return null;
+}
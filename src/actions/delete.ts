@@ -4,11 +4,23 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {ContextMenuRegistry, Msg, ShortcutItems} from 'blockly';
+import {
+  BlockSvg,
+  ContextMenuRegistry,
+  Msg,
+  ShortcutItems,
+  ShortcutRegistry,
+  WorkspaceSvg,
+  utils,
+} from 'blockly';
 import {getMenuItem} from '../shortcut_formatting';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {deleteBlocks} from '../block_selection';
 
 /**
- * Action to delete the block the cursor is currently on.
+ * Action to delete the block the cursor is currently on, or every selected
+ * block if the cursor is on one of them.
  */
 export class DeleteAction {
   /**
@@ -27,27 +39,101 @@ export class DeleteAction {
    */
   private oldContextMenuItem: ContextMenuRegistry.RegistryItem | null = null;
 
-  constructor() {}
+  /**
+   * Saved context menu item callback, which is restored when this action is
+   * uninstalled.
+   */
+  private oldCallback:
+    | ((
+        scope: ContextMenuRegistry.Scope,
+        menuOpenEvent: Event,
+        menuSelectEvent: Event,
+        location: utils.Coordinate,
+      ) => void)
+    | undefined = undefined;
+
+  /**
+   * Saved core delete shortcut, which is restored when this action is
+   * uninstalled.
+   */
+  private oldDeleteShortcut: ShortcutRegistry.KeyboardShortcut | undefined;
+
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
 
   /**
    * Install this action as both a keyboard shortcut and a context menu item.
    */
   install() {
+    this.registerShortcut();
     this.registerContextMenuAction();
   }
 
   /**
-   * Reinstall the original context menu display text if possible.
+   * Reinstall the original delete shortcut and context menu display text if
+   * possible.
    */
   uninstall() {
     if (this.oldContextMenuItem && this.oldDisplayText) {
       this.oldContextMenuItem.displayText = this.oldDisplayText;
     }
+    if (this.oldContextMenuItem && this.oldCallback) {
+      this.oldContextMenuItem.callback = this.oldCallback;
+      this.oldCallback = undefined;
+    }
+    if (this.oldDeleteShortcut) {
+      ShortcutRegistry.registry.unregister(ShortcutItems.names.DELETE);
+      ShortcutRegistry.registry.register(this.oldDeleteShortcut);
+      this.oldDeleteShortcut = undefined;
+    }
+  }
+
+  /**
+   * Replaces the core delete shortcut with one that also announces what was
+   * deleted. Skipped if there is no core delete shortcut registered.
+   */
+  private registerShortcut() {
+    this.oldDeleteShortcut =
+      ShortcutRegistry.registry.getRegistry()[ShortcutItems.names.DELETE];
+    if (!this.oldDeleteShortcut) return;
+
+    const deleteShortcut: ShortcutRegistry.KeyboardShortcut = {
+      ...this.oldDeleteShortcut,
+      callback: (
+        workspace: WorkspaceSvg,
+        e: Event,
+        shortcut: ShortcutRegistry.KeyboardShortcut,
+        scope: ContextMenuRegistry.Scope,
+      ) => {
+        const blocks = this.getSelectedBlocks(scope);
+        if (blocks.length > 1) {
+          deleteBlocks(blocks);
+          this.announcer.announce(`Deleted ${blocks.length} blocks`);
+          return true;
+        }
+        const description = scope.focusedNode
+          ? this.announcer.getDescriber().describe(scope.focusedNode)
+          : '';
+        const didDelete =
+          !!this.oldDeleteShortcut?.callback &&
+          this.oldDeleteShortcut.callback(workspace, e, shortcut, scope);
+        if (didDelete) {
+          this.announcer.announce(`Deleted ${description}`);
+        }
+        return didDelete;
+      },
+    };
+
+    ShortcutRegistry.registry.unregister(ShortcutItems.names.DELETE);
+    ShortcutRegistry.registry.register(deleteShortcut);
   }
 
   /**
    * Updates the text of the context menu delete action to include
-   * the keyboard shortcut.
+   * the keyboard shortcut, and makes it delete every selected block when
+   * used on one of them.
    */
   private registerContextMenuAction() {
     this.oldContextMenuItem =
@@ -59,9 +145,19 @@ export class DeleteAction {
 
     const displayText = (scope: ContextMenuRegistry.Scope) => {
       let label: string;
+      const blocks = this.getSelectedBlocks(scope);
       // Use the original item's text, which is dynamic based on the number
       // of blocks that will be deleted.
-      if (typeof this.oldDisplayText === 'function') {
+      if (blocks.length > 1) {
+        const count = blocks.reduce(
+          (total, block) =>
+            total +
+            block.getDescendants(false).filter((child) => !child.isShadow())
+              .length,
+          0,
+        );
+        label = Msg['DELETE_X_BLOCKS'].replace('%1', `${count}`);
+      } else if (typeof this.oldDisplayText === 'function') {
         const result = this.oldDisplayText(scope);
         if (result instanceof HTMLElement) {
           label = result.innerText;
@@ -78,5 +174,42 @@ export class DeleteAction {
     };
 
     this.oldContextMenuItem.displayText = displayText;
+
+    if (
+      !('callback' in this.oldContextMenuItem) ||
+      !this.oldContextMenuItem.callback
+    ) {
+      return;
+    }
+    const oldCallback = this.oldContextMenuItem.callback;
+    this.oldCallback = oldCallback;
+    this.oldContextMenuItem.callback = (
+      scope: ContextMenuRegistry.Scope,
+      menuOpenEvent: Event,
+      menuSelectEvent: Event,
+      location: utils.Coordinate,
+    ) => {
+      const blocks = this.getSelectedBlocks(scope);
+      if (blocks.length > 1) {
+        deleteBlocks(blocks);
+        this.announcer.announce(`Deleted ${blocks.length} blocks`);
+      } else {
+        oldCallback(scope, menuOpenEvent, menuSelectEvent, location);
+      }
+    };
+  }
+
+  /**
+   * Returns the selected blocks that a delete should apply to.
+   *
+   * @param scope The scope of the shortcut or context menu item.
+   * @returns The selected blocks if the block in scope is selected and
+   *     deletable, or else only the block itself.
+   */
+  private getSelectedBlocks(scope: ContextMenuRegistry.Scope): BlockSvg[] {
+    const block = scope.block ?? scope.focusedNode;
+    if (!(block instanceof BlockSvg)) return [];
+    const blocks = this.navigation.getSelection().getTargets(block);
+    return blocks.every((target) => target.isDeletable()) ? blocks : [block];
   }
 }
@@ -14,6 +14,7 @@ import {
 import * as Constants from '../constants';
 import type {WorkspaceSvg} from 'blockly';
 import {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
 
 const KeyCodes = BlocklyUtils.KeyCodes;
 
@@ -29,7 +30,10 @@ export class DisconnectAction {
    */
   private shortcutName = Constants.SHORTCUT_NAMES.DISCONNECT;
 
-  constructor(private navigation: Navigation) {}
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
 
   /**
    * Install this action as both a keyboard shortcut and a context menu item.
@@ -80,6 +84,10 @@ export class DisconnectAction {
     const cursor = workspace.getCursor();
     const curNode = cursor.getCurNode();
     if (!(curNode instanceof BlockSvg)) return;
+    if (!curNode.getParent()) {
+      this.announcer.announce('Block is not connected', 'assertive');
+      return;
+    }
 
     const healStack = !curNode.outputConnection?.isConnected();
     Events.setGroup(true);
@@ -88,5 +96,6 @@ export class DisconnectAction {
 
     // Needed or we end up with passive focus.
     cursor.setCurNode(curNode);
+    this.announcer.announceNode(curNode, 'Disconnected');
   }
 }
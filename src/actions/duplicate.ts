@@ -13,18 +13,29 @@ import {
   utils,
   comments,
   ICopyData,
+  WorkspaceSvg,
 } from 'blockly';
 import * as Constants from '../constants';
 import {getMenuItem} from '../shortcut_formatting';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {canChain, chainCopyData} from '../block_selection';
 
 /**
  * Duplicate action that adds a keyboard shortcut for duplicate and overrides
  * the context menu item to show it if the context menu item is registered.
+ * The shortcut duplicates every selected block if the focused block is
+ * selected.
  */
 export class DuplicateAction {
   private duplicateShortcut: ShortcutRegistry.KeyboardShortcut | null = null;
   private uninstallHandlers: Array<() => void> = [];
 
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
   /**
    * Install the shortcuts and override context menu entries.
    *
@@ -90,17 +101,50 @@ export class DuplicateAction {
         }
         return false;
       },
-      callback(workspace, e, shortcut, scope) {
+      callback: (workspace, e, shortcut, scope) => {
+        if (scope.focusedNode instanceof BlockSvg) {
+          const blocks = this.navigation
+            .getSelection()
+            .getTargets(scope.focusedNode);
+          if (blocks.length > 1) return this.duplicateBlocks(workspace, blocks);
+        }
         const copyable = scope.focusedNode as ICopyable<ICopyData>;
         const data = copyable.toCopyData();
         if (!data) return false;
-        return !!clipboard.paste(data, workspace);
+        const pasted = clipboard.paste(data, workspace);
+        if (!pasted) return false;
+        this.announcer.announceNode(pasted, 'Duplicated');
+        return true;
       },
       keyCodes: [utils.KeyCodes.D],
     };
     ShortcutRegistry.registry.register(shortcut);
     return shortcut;
   }
+
+  /**
+   * Duplicates several blocks as a single stack.
+   *
+   * @param workspace The workspace the blocks are on.
+   * @param blocks The blocks to duplicate, in order.
+   * @returns True if the blocks were duplicated.
+   */
+  private duplicateBlocks(workspace: WorkspaceSvg, blocks: BlockSvg[]) {
+    const data =
+      canChain(blocks) && blocks.every((block) => block.isDuplicatable())
+        ? chainCopyData(blocks)
+        : null;
+    const pasted = data ? clipboard.paste(data, workspace) : null;
+    if (!pasted) {
+      this.announcer.announce(
+        "These blocks can't be duplicated together",
+        'assertive',
+      );
+      return false;
+    }
+    this.announcer.announceNode(pasted, `Duplicated ${blocks.length} blocks,`);
+    return true;
+  }
 }
 
 /**
@@ -8,6 +8,7 @@ import {ContextMenuRegistry, Msg, keyboardNavigationController} from 'blockly';
 import {Navigation} from '../navigation';
 import {getMenuItem} from '../shortcut_formatting';
 import * as Constants from '../constants';
+import type {Announcer} from '../announcer';
 
 /**
  * Action to edit a block.  This just moves the cursor to the first
@@ -30,7 +31,10 @@ import * as Constants from '../constants';
  * is already a corresponding "right" shortcut item.
  */
 export class EditAction {
-  constructor(private navigation: Navigation) {}
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
 
   /**
    * Install this action as a context menu item.
@@ -71,6 +75,7 @@ export class EditAction {
         const workspace = scope.block?.workspace;
         if (!workspace) return false;
         workspace.getCursor()?.in();
+        this.announcer.announceFocusedNode();
         return true;
       },
       scopeType: ContextMenuRegistry.ScopeType.BLOCK,
@@ -25,6 +25,7 @@ import type {Block} from 'blockly/core';
 
 import * as Constants from '../constants';
 import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
 import {Mover, MoveType} from './mover';
 import {
   showConstrainedMovementHint,
@@ -41,6 +42,7 @@ export class EnterAction {
   constructor(
     private mover: Mover,
     private navigation: Navigation,
+    private announcer: Announcer,
   ) {}
 
   /**
@@ -153,6 +155,7 @@ export class EnterAction {
     } else if (curNode instanceof BlockSvg) {
       if (!this.tryShowFullBlockFieldEditor(curNode)) {
         showHelpHint(workspace);
+        this.announcer.announce('Nothing to edit on this block', 'assertive');
       }
       return true;
     } else if (
@@ -160,6 +163,7 @@ export class EnterAction {
       curNode instanceof WorkspaceSvg
     ) {
       this.navigation.openToolboxOrFlyout(workspace);
+      this.announcer.announceFocusedNode();
       return true;
     } else if (curNode instanceof icons.Icon) {
       // Calling the icon's click handler will trigger its action, generally
@@ -185,15 +189,28 @@ export class EnterAction {
 
   /**
    * Inserts a block from the flyout.
+   *
+   * @param workspace The main workspace. The workspace
+   *     the block will be placed on.
+   */
+  private insertFromFlyout(workspace: WorkspaceSvg) {
+    this.insertBlock(workspace, () => this.createNewBlock(workspace));
+  }
+
+  /**
+   * Creates a new block and starts an insert move for it.
    * Tries to find a connection on the block to connect to the marked
    * location. If no connection has been marked, or there is not a compatible
-   * connection then the block is placed on the workspace.
+   * connection then the block is placed on the workspace, at the workspace
+   * cursor if the cursor is on the workspace.
    * Trigger a toast per session if possible.
    *
    * @param workspace The main workspace. The workspace
    *     the block will be placed on.
+   * @param createBlock Function that creates the new block on the workspace,
+   *     or returns null if it can't.
    */
-  private insertFromFlyout(workspace: WorkspaceSvg) {
+  insertBlock(workspace: WorkspaceSvg, createBlock: () => BlockSvg | null) {
     workspace.setResizesEnabled(false);
     // Create a new event group or append to the existing group.
     const existingGroup = Events.getGroup();
@@ -205,14 +222,22 @@ export class EnterAction {
     const stationaryNode =
       FocusableTreeTraverser.findFocusedNode(workspace) ??
       workspace.getRestoredFocusableNode(null);
-    const newBlock = this.createNewBlock(workspace);
+    const newBlock = createBlock();
     if (!newBlock) return;
     const insertStartPoint = stationaryNode
       ? this.navigation.findInsertStartPoint(stationaryNode, newBlock)
       : null;
 
     if (workspace.getTopBlocks().includes(newBlock)) {
-      this.positionNewTopLevelBlock(workspace, newBlock);
+      const location = this.navigation.getWorkspaceCursorLocation(workspace);
+      if (location) {
+        // The user has placed the workspace cursor so drop the block there.
+        newBlock.moveTo(location, ['cleanup']);
+        newBlock.snapToGrid();
+        newBlock.bringToFront();
+      } else {
+        this.positionNewTopLevelBlock(workspace, newBlock);
+      }
     }
 
     workspace.setResizesEnabled(true);
@@ -382,6 +407,7 @@ export class EnterAction {
     const curBlock = this.navigation.getFlyoutCursor(workspace)?.getCurNode();
     if (!(curBlock instanceof BlockSvg) || !curBlock.isEnabled()) {
       console.warn("Can't insert a disabled block.");
+      this.announcer.announce("Can't insert a disabled block", 'assertive');
       return null;
     }
 
@@ -14,6 +14,7 @@ import {
 
 import * as Constants from '../constants';
 import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
 
 const KeyCodes = BlocklyUtils.KeyCodes;
 
@@ -21,7 +22,10 @@ const KeyCodes = BlocklyUtils.KeyCodes;
  * Class for registering a shortcut for the exit action.
  */
 export class ExitAction {
-  constructor(private navigation: Navigation) {}
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
 
   /**
    * Adds the exit action shortcut to the registry.
@@ -39,6 +43,7 @@ export class ExitAction {
             if (!Gesture.inProgress()) {
               workspace.hideChaff();
             }
+            this.announcer.announceFocusedNode();
             return true;
           case Constants.STATE.WORKSPACE: {
             if (workspace.isMutator) {
@@ -55,6 +60,7 @@ export class ExitAction {
               if (parent) {
                 parent.setBubbleVisible(false);
                 getFocusManager().focusNode(parent);
+                this.announcer.announceNode(parent, 'Closed mutator,');
                 return true;
               }
             }
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  ShortcutRegistry,
+  WorkspaceSvg,
+  dialog,
+  keyboardNavigationController,
+  utils,
+} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {findMatchingBlocks} from '../block_search';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/**
+ * Actions for finding blocks on the main workspace by type, field text and
+ * comment text, and moving the cursor between the matches.
+ */
+export class FindAction {
+  /** The most recent search, or the empty string if there hasn't been one. */
+  private query = '';
+
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /** Ask for text to search for and go to the first match. */
+    {
+      name: Constants.SHORTCUT_NAMES.FIND,
+      preconditionFn: (workspace) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        return (
+          !!targetWorkspace &&
+          this.navigation.canCurrentlyNavigate(targetWorkspace)
+        );
+      },
+      callback: (workspace, e) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        if (!targetWorkspace) return false;
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        this.promptForQuery(targetWorkspace);
+        return true;
+      },
+      keyCodes: [KeyCodes.F],
+    },
+    /** Go to the next match. */
+    {
+      name: Constants.SHORTCUT_NAMES.FIND_NEXT,
+      preconditionFn: (workspace) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        return (
+          !!this.query &&
+          !!targetWorkspace &&
+          this.navigation.canCurrentlyNavigate(targetWorkspace)
+        );
+      },
+      callback: (workspace, e) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        if (!targetWorkspace) return false;
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.goToMatch(targetWorkspace, 1);
+      },
+      keyCodes: [KeyCodes.F3],
+    },
+    /** Go to the previous match. */
+    {
+      name: Constants.SHORTCUT_NAMES.FIND_PREVIOUS,
+      preconditionFn: (workspace) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        return (
+          !!this.query &&
+          !!targetWorkspace &&
+          this.navigation.canCurrentlyNavigate(targetWorkspace)
+        );
+      },
+      callback: (workspace, e) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        if (!targetWorkspace) return false;
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.goToMatch(targetWorkspace, -1);
+      },
+      keyCodes: [createSerializedKey(KeyCodes.F3, [KeyCodes.SHIFT])],
+    },
+  ];
+
+  /**
+   * Install the shortcuts.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+  }
+
+  /**
+   * Uninstall the shortcuts.
+   */
+  uninstall() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+  }
+
+  /**
+   * Returns the most recent search.
+   *
+   * @returns The search text, or the empty string if there hasn't been one.
+   */
+  getQuery(): string {
+    return this.query;
+  }
+
+  /**
+   * Searches the workspace and moves the cursor to the match after the one
+   * it is on, or to the first match if it is not on one.
+   *
+   * @param workspace The main workspace.
+   * @param query The text to search for.
+   * @returns True if there was a match.
+   */
+  find(workspace: WorkspaceSvg, query: string): boolean {
+    this.query = query;
+    return this.goToMatch(workspace, 1);
+  }
+
+  /**
+   * Returns the workspace to search.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns The main workspace, or null if there isn't one.
+   */
+  private getTargetWorkspace(workspace: WorkspaceSvg): WorkspaceSvg | null {
+    return workspace.isFlyout ? workspace.targetWorkspace ?? null : workspace;
+  }
+
+  /**
+   * Asks the user what to search for, then goes to the first match.
+   *
+   * @param workspace The main workspace.
+   */
+  private promptForQuery(workspace: WorkspaceSvg) {
+    dialog.prompt('Find blocks containing:', this.query, (query) => {
+      if (query === null) return;
+      query = query.trim();
+      if (!query) return;
+      this.find(workspace, query);
+    });
+  }
+
+  /**
+   * Moves the cursor to the next or previous match for the current search.
+   *
+   * The matches are recalculated each time, so blocks that were changed
+   * since the search started are found correctly.
+   *
+   * @param workspace The main workspace.
+   * @param step 1 to go to the next match, -1 for the previous one.
+   * @returns True if there was a match to go to.
+   */
+  private goToMatch(workspace: WorkspaceSvg, step: 1 | -1): boolean {
+    const matches = findMatchingBlocks(workspace, this.query);
+    if (!matches.length) {
+      this.announcer.announce(`No matches for ${this.query}`, 'assertive');
+      return false;
+    }
+
+    const cursor = workspace.getCursor();
+    const current = cursor.getSourceBlock();
+    const currentIndex =
+      current instanceof BlockSvg ? matches.indexOf(current) : -1;
+    let index: number;
+    if (currentIndex === -1) {
+      index = step === 1 ? 0 : matches.length - 1;
+    } else {
+      index = (currentIndex + step + matches.length) % matches.length;
+    }
+
+    const match = matches[index];
+    if (match !== cursor.getCurNode()) {
+      this.navigation.getHistory().record(workspace);
+    }
+    cursor.setCurNode(match);
+    workspace.scrollBoundsIntoView(match.getBoundingRectangleWithoutChildren());
+    this.announcer.announceNode(
+      match,
+      `Match ${index + 1} of ${matches.length},`,
+    );
+    return true;
+  }
+}
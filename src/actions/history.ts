@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ShortcutRegistry,
+  WorkspaceSvg,
+  keyboardNavigationController,
+  utils,
+} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+
+const KeyCodes = utils.KeyCodes;
+
+/**
+ * Actions for going back to where the cursor was before it jumped, and
+ * forward again.
+ */
+export class HistoryAction {
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /** Go back to the position before the last jump. */
+    {
+      name: Constants.SHORTCUT_NAMES.NAVIGATE_BACK,
+      preconditionFn: (workspace) =>
+        this.navigation.canCurrentlyNavigate(workspace) && !workspace.isFlyout,
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.go(workspace, 'back');
+      },
+      keyCodes: [KeyCodes.OPEN_SQUARE_BRACKET],
+    },
+    /** Go forward to the position before the last time the user went back. */
+    {
+      name: Constants.SHORTCUT_NAMES.NAVIGATE_FORWARD,
+      preconditionFn: (workspace) =>
+        this.navigation.canCurrentlyNavigate(workspace) && !workspace.isFlyout,
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.go(workspace, 'forward');
+      },
+      keyCodes: [KeyCodes.CLOSE_SQUARE_BRACKET],
+    },
+  ];
+
+  /**
+   * Install the shortcuts.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+  }
+
+  /**
+   * Uninstall the shortcuts.
+   */
+  uninstall() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+  }
+
+  /**
+   * Moves the cursor through the navigation history and announces where it
+   * ended up.
+   *
+   * @param workspace The workspace to move the cursor on.
+   * @param direction Which way to move through the history.
+   * @returns True if the cursor moved.
+   */
+  private go(workspace: WorkspaceSvg, direction: 'back' | 'forward'): boolean {
+    const history = this.navigation.getHistory();
+    const node =
+      direction === 'back'
+        ? history.back(workspace)
+        : history.forward(workspace);
+    if (!node) {
+      this.announcer.announce(
+        direction === 'back' ? 'No earlier position' : 'No later position',
+        'assertive',
+      );
+      return false;
+    }
+    this.announcer.announceNode(
+      node,
+      direction === 'back' ? 'Back,' : 'Forward,',
+    );
+    return true;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  Events,
+  ShortcutRegistry,
+  Workspace,
+  WorkspaceSvg,
+  Xml,
+  keyboardNavigationController,
+  serialization,
+  utils,
+} from 'blockly/core';
+import type {Block} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {BlockPalette, PaletteItem} from '../block_palette';
+import type {EnterAction} from './enter';
+
+const KeyCodes = utils.KeyCodes;
+
+/**
+ * Action that opens a palette for finding any block in the toolbox by typing
+ * part of its text, type or tooltip, and inserting it at the cursor.
+ */
+export class InsertPaletteAction {
+  private palette: BlockPalette;
+
+  constructor(
+    private navigation: Navigation,
+    private enterAction: EnterAction,
+    announcer: Announcer,
+  ) {
+    this.palette = new BlockPalette(announcer);
+  }
+
+  /**
+   * Install the shortcut.
+   */
+  install() {
+    ShortcutRegistry.registry.register({
+      name: Constants.SHORTCUT_NAMES.INSERT_PALETTE,
+      preconditionFn: (workspace) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        return (
+          !!targetWorkspace &&
+          this.navigation.canCurrentlyEdit(targetWorkspace) &&
+          !targetWorkspace.isDragging() &&
+          !!targetWorkspace.options.languageTree
+        );
+      },
+      callback: (workspace, e) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        if (!targetWorkspace) return false;
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        this.palette.show(
+          targetWorkspace,
+          getToolboxBlocks(targetWorkspace),
+          (item) => this.insert(targetWorkspace, item),
+        );
+        return true;
+      },
+      keyCodes: [KeyCodes.I],
+    });
+  }
+
+  /**
+   * Uninstall the shortcut.
+   */
+  uninstall() {
+    this.palette.hide();
+    ShortcutRegistry.registry.unregister(
+      Constants.SHORTCUT_NAMES.INSERT_PALETTE,
+    );
+  }
+
+  /**
+   * Returns the workspace blocks should be inserted into.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns The main workspace, or null if there isn't one.
+   */
+  private getTargetWorkspace(workspace: WorkspaceSvg): WorkspaceSvg | null {
+    return workspace.isFlyout ? workspace.targetWorkspace ?? null : workspace;
+  }
+
+  /**
+   * Creates the chosen block and starts moving it, in the same way as
+   * inserting a block from the flyout.
+   *
+   * @param workspace The workspace to insert the block into.
+   * @param item The chosen block.
+   */
+  private insert(workspace: WorkspaceSvg, item: PaletteItem) {
+    this.enterAction.insertBlock(workspace, () => {
+      const newBlock = serialization.blocks.append(item.state, workspace);
+      if (!(newBlock instanceof BlockSvg)) return null;
+      // Render to get the sizing right.
+      newBlock.render();
+      // Connections are not tracked until the block has been rendered.
+      newBlock.setConnectionTracking(true);
+      return newBlock;
+    });
+  }
+}
+
+/**
+ * Creates a block from its toolbox definition.
+ *
+ * @param workspace The headless workspace to create the block on.
+ * @param info The toolbox definition of the block.
+ * @returns The block, or null if the definition could not be used.
+ */
+function createScratchBlock(
+  workspace: Workspace,
+  info: utils.toolbox.BlockInfo,
+): Block | null {
+  try {
+    if (info.blockxml) {
+      const xml =
+        typeof info.blockxml === 'string'
+          ? utils.xml.textToDom(info.blockxml)
+          : (info.blockxml as Element);
+      return Xml.domToBlock(xml, workspace);
+    }
+    return serialization.blocks.append(
+      info as serialization.blocks.State,
+      workspace,
+    );
+  } catch (e) {
+    console.warn('Could not create toolbox block for the palette', e);
+    return null;
+  }
+}
+
+/**
+ * Lists every block in every category of the workspace's toolbox, including
+ * dynamic categories such as variables.
+ *
+ * @param workspace The workspace whose toolbox should be searched.
+ * @param filter Optional test that blocks must pass to be listed.
+ * @returns The blocks, in toolbox order, without duplicates.
+ */
+export function getToolboxBlocks(
+  workspace: WorkspaceSvg,
+  filter?: (block: Block) => boolean,
+): PaletteItem[] {
+  const tree = workspace.options.languageTree;
+  if (!tree) return [];
+
+  const items: PaletteItem[] = [];
+  const seen = new Set<string>();
+  // Blocks are created on a headless workspace to read their text and
+  // tooltips without firing events on the real workspace.
+  const scratch = new Workspace(workspace.options);
+  Events.disable();
+  try {
+    const visit = (
+      contents: utils.toolbox.ToolboxItemInfo[],
+      category: string,
+    ) => {
+      for (const info of contents) {
+        const kind = info.kind.toLowerCase();
+        if (kind === 'category') {
+          const name =
+            'name' in info
+              ? utils.parsing.replaceMessageReferences(`${info.name}`)
+              : category;
+          if ('contents' in info && Array.isArray(info.contents)) {
+            visit(info.contents, name);
+          }
+          if ('custom' in info && info.custom) {
+            const callback = workspace.getToolboxCategoryCallback(info.custom);
+            if (callback) {
+              visit(
+                utils.toolbox.convertFlyoutDefToJsonArray(callback(workspace)),
+                name,
+              );
+            }
+          }
+        } else if (kind === 'block') {
+          const block = createScratchBlock(
+            scratch,
+            info as utils.toolbox.BlockInfo,
+          );
+          if (!block || (filter && !filter(block))) continue;
+          const state = serialization.blocks.save(block, {
+            addCoordinates: false,
+          });
+          const key = JSON.stringify(state);
+          if (!state || seen.has(key)) continue;
+          seen.add(key);
+          const tooltip = block.getTooltip();
+          items.push({
+            state,
+            type: block.type,
+            label: block.toString(),
+            tooltip: typeof tooltip === 'string' ? tooltip : '',
+            category,
+          });
+        }
+      }
+    };
+    visit(tree.contents, '');
+  } finally {
+    scratch.dispose();
+    Events.enable();
+  }
+  return items;
+}
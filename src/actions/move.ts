@@ -73,6 +73,45 @@ export class MoveActions {
       allowCollision: true,
     },
 
+    {
+      name: 'list_move_targets',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        return this.mover.showTargetMenu(workspace, e);
+      },
+      keyCodes: [createSerializedKey(KeyCodes.M, [KeyCodes.SHIFT])],
+    },
+
+    // Step back and forward through the move.
+    {
+      name: 'move_step_back',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        return this.mover.stepMove(workspace, 'back');
+      },
+      keyCodes: [
+        createSerializedKey(KeyCodes.Z, [KeyCodes.CTRL]),
+        createSerializedKey(KeyCodes.Z, [KeyCodes.META]),
+      ],
+      allowCollision: true,
+    },
+    {
+      name: 'move_step_forward',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        return this.mover.stepMove(workspace, 'forward');
+      },
+      keyCodes: [
+        createSerializedKey(KeyCodes.Z, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.Z, [KeyCodes.META, KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.Y, [KeyCodes.CTRL]),
+      ],
+      allowCollision: true,
+    },
+
     // Constrained moves.
     {
       name: 'move_left_constrained',
@@ -148,6 +187,86 @@ export class MoveActions {
         createSerializedKey(KeyCodes.DOWN, [KeyCodes.CTRL]),
       ],
     },
+
+    // Large unconstrained moves.
+    {
+      name: 'move_left_unconstrained_large',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace) =>
+        this.mover.moveUnconstrained(workspace, Direction.Left, 'large'),
+      keyCodes: [
+        createSerializedKey(KeyCodes.LEFT, [KeyCodes.ALT, KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.LEFT, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+      ],
+    },
+    {
+      name: 'move_right_unconstrained_large',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace) =>
+        this.mover.moveUnconstrained(workspace, Direction.Right, 'large'),
+      keyCodes: [
+        createSerializedKey(KeyCodes.RIGHT, [KeyCodes.ALT, KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.RIGHT, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+      ],
+    },
+    {
+      name: 'move_up_unconstrained_large',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace) =>
+        this.mover.moveUnconstrained(workspace, Direction.Up, 'large'),
+      keyCodes: [
+        createSerializedKey(KeyCodes.UP, [KeyCodes.ALT, KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.UP, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+      ],
+    },
+    {
+      name: 'move_down_unconstrained_large',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace) =>
+        this.mover.moveUnconstrained(workspace, Direction.Down, 'large'),
+      keyCodes: [
+        createSerializedKey(KeyCodes.DOWN, [KeyCodes.ALT, KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.DOWN, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+      ],
+    },
+
+    // Fine unconstrained moves.
+    {
+      name: 'move_left_unconstrained_fine',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace) =>
+        this.mover.moveUnconstrained(workspace, Direction.Left, 'fine'),
+      keyCodes: [
+        createSerializedKey(KeyCodes.LEFT, [KeyCodes.CTRL, KeyCodes.ALT]),
+      ],
+    },
+    {
+      name: 'move_right_unconstrained_fine',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace) =>
+        this.mover.moveUnconstrained(workspace, Direction.Right, 'fine'),
+      keyCodes: [
+        createSerializedKey(KeyCodes.RIGHT, [KeyCodes.CTRL, KeyCodes.ALT]),
+      ],
+    },
+    {
+      name: 'move_up_unconstrained_fine',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace) =>
+        this.mover.moveUnconstrained(workspace, Direction.Up, 'fine'),
+      keyCodes: [
+        createSerializedKey(KeyCodes.UP, [KeyCodes.CTRL, KeyCodes.ALT]),
+      ],
+    },
+    {
+      name: 'move_down_unconstrained_fine',
+      preconditionFn: (workspace) => this.mover.isMoving(workspace),
+      callback: (workspace) =>
+        this.mover.moveUnconstrained(workspace, Direction.Down, 'fine'),
+      keyCodes: [
+        createSerializedKey(KeyCodes.DOWN, [KeyCodes.CTRL, KeyCodes.ALT]),
+      ],
+    },
   ];
 
   private menuItems: ContextMenuRegistry.RegistryItem[] = [
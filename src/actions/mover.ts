@@ -15,7 +15,10 @@ import type {
 } from 'blockly';
 import {
   Connection,
+  ContextMenu,
+  ContextMenuRegistry,
   dragging,
+  FocusableTreeTraverser,
   getFocusManager,
   registry,
   utils,
@@ -26,27 +29,102 @@ import {
 } from 'blockly';
 import * as Constants from '../constants';
 import {Direction, getXYFromDirection} from '../drag_direction';
-import {KeyboardDragStrategy} from '../keyboard_drag_strategy';
+import {
+  KeyboardDragStrategy,
+  type ConnectionCandidate,
+} from '../keyboard_drag_strategy';
 import {Navigation} from '../navigation';
 import {clearMoveHints} from '../hints';
 import {MoveIndicatorBubble} from '../move_indicator';
+import type {Announcer} from '../announcer';
+import {canChain, gatherBlocks} from '../block_selection';
 
 /**
- * The distance to move an item, in workspace coordinates, when
+ * The default distance to move an item, in workspace coordinates, when
  * making an unconstrained move.
  */
 const UNCONSTRAINED_MOVE_DISTANCE = 20;
 
 /**
- * The amount of additional padding to include during a constrained move.
+ * The default distance of an unconstrained move with the large step
+ * modifier.
+ */
+const LARGE_MOVE_DISTANCE = 100;
+
+/**
+ * The default distance of an unconstrained move with the fine step modifier.
+ */
+const FINE_MOVE_DISTANCE = 1;
+
+/**
+ * The default amount of additional padding to include during a constrained
+ * move.
  */
 const CONSTRAINED_ADDITIONAL_PADDING = 70;
 
+/**
+ * Options for moving elements with the keyboard.
+ */
+export interface MoveOptions {
+  /**
+   * Distance of an unconstrained move, in workspace units. Defaults to 20.
+   */
+  step?: number;
+  /**
+   * Distance of an unconstrained move with the large step modifier (Shift),
+   * in workspace units. Defaults to 100.
+   */
+  largeStep?: number;
+  /**
+   * Distance of an unconstrained move with the fine step modifier (Ctrl +
+   * Alt), in workspace units. Defaults to 1.
+   */
+  fineStep?: number;
+  /**
+   * Space to keep between a block and the edge of the view after a
+   * constrained move, in workspace units. Defaults to 70.
+   */
+  constrainedPadding?: number;
+}
+
+/**
+ * Which step distance an unconstrained move uses.
+ */
+export type MoveStepSize = 'normal' | 'large' | 'fine';
+
 /**
  * Identifier for a keyboard shortcut that commits the in-progress move.
  */
 export const COMMIT_MOVE_SHORTCUT = 'commitMove';
 
+/**
+ * Names of the keyboard shortcuts used while moving, whose keys should not
+ * commit the move.
+ */
+const MOVE_MODE_SHORTCUTS = new Set([
+  'finish_move',
+  'abort_move',
+  'list_move_targets',
+  'move_step_back',
+  'move_step_forward',
+  'move_left_constrained',
+  'move_right_constrained',
+  'move_up_constrained',
+  'move_down_constrained',
+  'move_left_unconstrained',
+  'move_right_unconstrained',
+  'move_up_unconstrained',
+  'move_down_unconstrained',
+  'move_left_unconstrained_large',
+  'move_right_unconstrained_large',
+  'move_up_unconstrained_large',
+  'move_down_unconstrained_large',
+  'move_left_unconstrained_fine',
+  'move_right_unconstrained_fine',
+  'move_up_unconstrained_fine',
+  'move_down_unconstrained_fine',
+]);
+
 /**
  * Whether this is an insert or a move.
  */
@@ -82,7 +160,18 @@ export class Mover {
 
   private moveIndicator?: MoveIndicatorBubble;
 
-  constructor(protected navigation: Navigation) {}
+  constructor(
+    protected navigation: Navigation,
+    protected announcer: Announcer,
+    private options: MoveOptions = {},
+  ) {
+    for (const name of ['step', 'largeStep', 'fineStep'] as const) {
+      const value = options[name];
+      if (value !== undefined && !(value > 0)) {
+        throw new Error(`Move option "${name}" must be a positive number.`);
+      }
+    }
+  }
 
   /**
    * Returns true iff we are able to begin moving the draggable element which
@@ -120,6 +209,10 @@ export class Mover {
    *
    * Should only be called if canMove has returned true.
    *
+   * If the element is a selected block, all the selected blocks are joined
+   * into a single stack and moved together. An aborted move puts them back
+   * where they were.
+   *
    * @param workspace The workspace we might be moving on.
    * @param draggable The element to start dragging.
    * @param moveType Whether this is an insert or a move.
@@ -133,6 +226,31 @@ export class Mover {
     moveType: MoveType,
     startPoint: RenderedConnection | null,
   ) {
+    const selected =
+      moveType === MoveType.Move && draggable instanceof BlockSvg
+        ? this.navigation.getSelection().getTargets(draggable)
+        : [];
+    if (selected.length > 1) {
+      if (!canChain(selected)) {
+        this.announcer.announce(
+          "These blocks can't be moved together",
+          'assertive',
+        );
+        return false;
+      }
+      draggable = selected[0];
+    }
+    // Remember where the user was, so that they can go back there after the
+    // move: the insert point for a new block, or the old parent of a block.
+    const origin =
+      moveType === MoveType.Insert
+        ? FocusableTreeTraverser.findFocusedNode(workspace)
+        : draggable instanceof BlockSvg
+          ? draggable.getParent()
+          : null;
+    // Join the selected blocks together, in an event group that the drag
+    // continues so that the move is undone as one.
+    const restore = selected.length > 1 ? gatherBlocks(selected) : null;
     if (draggable instanceof BlockSvg) {
       this.patchDragStrategy(draggable, moveType, startPoint);
     } else if (draggable instanceof comments.RenderedWorkspaceComment) {
@@ -152,11 +270,19 @@ export class Mover {
     };
     // Record that a move is in progress and start dragging.
     workspace.setKeyboardMoveInProgress(true);
-    const info = new MoveInfo(workspace, draggable, dragger, blurListener);
+    const info = new MoveInfo(
+      workspace,
+      draggable,
+      dragger,
+      blurListener,
+      origin,
+      restore,
+    );
     this.moves.set(workspace, info);
     // Begin drag.
     dragger.onDragStart(info.fakePointerEvent('pointerdown'));
     info.updateTotalDelta();
+    info.recordStep(this.getConnectionCandidate(draggable));
     // In case a block is detached, ensure that it still retains focus
     // (otherwise dragging will break). This is also the point a new block's
     // initial insert position is scrolled into view.
@@ -167,27 +293,22 @@ export class Mover {
     // keyboard shortcuts that commits the move before allowing the real
     // shortcut to proceed. This avoids all kinds of fun brokenness when
     // deleting/copying/otherwise acting on a element in move mode.
-    const shortcutKeys = Object.values(ShortcutRegistry.registry.getRegistry())
-      .flatMap((shortcut) => shortcut.keyCodes)
-      .filter((keyCode) => {
-        return (
-          keyCode &&
-          ![
-            utils.KeyCodes.RIGHT,
-            utils.KeyCodes.LEFT,
-            utils.KeyCodes.UP,
-            utils.KeyCodes.DOWN,
-            utils.KeyCodes.ENTER,
-            utils.KeyCodes.ESC,
-          ].includes(
-            typeof keyCode === 'number'
-              ? keyCode
-              : parseInt(`${keyCode.split('+').pop()}`),
-          )
-        );
-      })
-      // Convince TS there aren't undefined values.
-      .filter((keyCode): keyCode is string | number => !!keyCode);
+    // The keys come from the key map rather than the shortcuts so that keys
+    // that have been rebound are included.
+    const keyMap = ShortcutRegistry.registry.getKeyMap();
+    const shortcutKeys = Object.keys(keyMap).filter((keyCode) => {
+      if (keyMap[keyCode].some((name) => MOVE_MODE_SHORTCUTS.has(name))) {
+        return false;
+      }
+      return ![
+        utils.KeyCodes.RIGHT,
+        utils.KeyCodes.LEFT,
+        utils.KeyCodes.UP,
+        utils.KeyCodes.DOWN,
+        utils.KeyCodes.ENTER,
+        utils.KeyCodes.ESC,
+      ].includes(parseInt(`${keyCode.split('+').pop()}`));
+    });
 
     const commitMoveShortcut = {
       name: COMMIT_MOVE_SHORTCUT,
@@ -204,6 +325,10 @@ export class Mover {
 
     ShortcutRegistry.registry.register(commitMoveShortcut);
 
+    this.announcer.announceNode(
+      draggable,
+      selected.length > 1 ? `Moving ${selected.length} blocks,` : 'Moving',
+    );
     return true;
   }
 
@@ -224,6 +349,10 @@ export class Mover {
     );
 
     this.postDragEndCleanup(workspace, info);
+    if (info.origin) {
+      this.navigation.getHistory().record(workspace, info.origin);
+    }
+    this.announcer.announceNode(info.draggable, 'Placed');
     return true;
   }
 
@@ -238,29 +367,34 @@ export class Mover {
   abortMove(workspace: WorkspaceSvg) {
     const info = this.preDragEndCleanup(workspace);
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const dragStrategy = (info.draggable as any)
-      .dragStrategy as KeyboardDragStrategy;
-    this.patchDragger(info.dragger as dragging.Dragger, dragStrategy.moveType);
+    const dragStrategy = this.getDragStrategy(info.draggable);
+    // Comments can only be moved, not inserted.
+    const moveType = dragStrategy?.moveType ?? MoveType.Move;
+    this.patchDragger(info.dragger as dragging.Dragger, moveType);
 
     // Save the position so we can put the cursor in a reasonable spot.
-    // @ts-expect-error Access to private property connectionCandidate.
-    const target = dragStrategy.connectionCandidate?.neighbour;
+    const target = this.getConnectionCandidate(info.draggable)?.neighbour;
 
     // Prevent the strategy connecting the block so we just delete one block.
-    // @ts-expect-error Access to private property connectionCandidate.
-    dragStrategy.connectionCandidate = null;
+    if (dragStrategy) {
+      // @ts-expect-error Access to private property connectionCandidate.
+      dragStrategy.connectionCandidate = null;
+    }
 
     info.dragger.onDragEnd(
       info.fakePointerEvent('pointerup'),
       info.startLocation,
     );
 
-    if (dragStrategy.moveType === MoveType.Insert && target) {
+    if (moveType === MoveType.Insert && target) {
       workspace.getCursor().setCurNode(target);
     }
+    info.restore?.();
 
     this.postDragEndCleanup(workspace, info);
+    this.announcer.announce(
+      moveType === MoveType.Insert ? 'Insert cancelled' : 'Move cancelled',
+    );
     return true;
   }
 
@@ -328,10 +462,12 @@ export class Mover {
     );
 
     info.updateTotalDelta();
+    info.recordStep(this.getConnectionCandidate(info.draggable));
     this.scrollCurrentElementIntoView(
       workspace,
-      CONSTRAINED_ADDITIONAL_PADDING,
+      this.options.constrainedPadding ?? CONSTRAINED_ADDITIONAL_PADDING,
     );
+    this.announceConnectionCandidate(info.draggable);
     return true;
   }
 
@@ -339,28 +475,251 @@ export class Mover {
    * Action to move the item being moved in the given direction,
    * without constraint.
    *
+   * If the workspace snaps to a grid, the item moves by whole grid spaces
+   * and lands on the grid.
+   *
    * @param workspace The workspace to move on.
    * @param direction The direction to move the dragged item.
+   * @param stepSize Which step distance to move by.
    * @returns True iff this action applies and has been performed.
    */
-  moveUnconstrained(workspace: WorkspaceSvg, direction: Direction): boolean {
+  moveUnconstrained(
+    workspace: WorkspaceSvg,
+    direction: Direction,
+    stepSize: MoveStepSize = 'normal',
+  ): boolean {
     if (!workspace) return false;
     const info = this.moves.get(workspace);
     if (!info) throw new Error('no move info for workspace');
 
     const {x, y} = getXYFromDirection(direction);
-    info.totalDelta.x += x * UNCONSTRAINED_MOVE_DISTANCE * workspace.scale;
-    info.totalDelta.y += y * UNCONSTRAINED_MOVE_DISTANCE * workspace.scale;
+    const distance = this.getStepDistance(stepSize);
+    const grid = workspace.getGrid();
+    if (grid?.shouldSnap()) {
+      const spacing = grid.getSpacing();
+      const gridDistance = Math.max(
+        spacing,
+        Math.round(distance / spacing) * spacing,
+      );
+      const location = grid.alignXY(
+        new utils.Coordinate(
+          info.startLocation.x + info.totalDelta.x + x * gridDistance,
+          info.startLocation.y + info.totalDelta.y + y * gridDistance,
+        ),
+      );
+      info.totalDelta = utils.Coordinate.difference(
+        location,
+        info.startLocation,
+      );
+    } else {
+      info.totalDelta.x += x * distance * workspace.scale;
+      info.totalDelta.y += y * distance * workspace.scale;
+    }
 
     info.dragger.onDrag(
       info.fakePointerEvent('pointermove'),
       info.totalDelta.clone().scale(workspace.scale),
     );
+    info.recordStep(this.getConnectionCandidate(info.draggable));
     this.scrollCurrentElementIntoView(workspace);
     this.moveIndicator?.updateLocation();
     return true;
   }
 
+  /**
+   * Returns the distance of an unconstrained move.
+   *
+   * @param stepSize Which step distance to use.
+   * @returns The distance, in workspace units.
+   */
+  private getStepDistance(stepSize: MoveStepSize): number {
+    switch (stepSize) {
+      case 'large':
+        return this.options.largeStep ?? LARGE_MOVE_DISTANCE;
+      case 'fine':
+        return this.options.fineStep ?? FINE_MOVE_DISTANCE;
+      default:
+        return this.options.step ?? UNCONSTRAINED_MOVE_DISTANCE;
+    }
+  }
+
+  /**
+   * Action to go back to where the item being moved was before the last
+   * constrained or unconstrained move, or forward again after going back.
+   *
+   * @param workspace The workspace to move on.
+   * @param direction Whether to step back or forward.
+   * @returns True iff this action applies and has been performed.
+   */
+  stepMove(workspace: WorkspaceSvg, direction: 'back' | 'forward'): boolean {
+    const info = this.moves.get(workspace);
+    if (!info) throw new Error('no move info for workspace');
+
+    const step = direction === 'back' ? info.stepBack() : info.stepForward();
+    if (!step) {
+      this.announcer.announce(
+        direction === 'back' ? 'No earlier position' : 'No later position',
+        'assertive',
+      );
+      // Handled, so that the key doesn't undo or redo while moving.
+      return true;
+    }
+
+    const candidate = step.candidate;
+    const dragStrategy = this.getDragStrategy(info.draggable);
+    if (
+      dragStrategy &&
+      candidate &&
+      !candidate.neighbour.getSourceBlock().isDeadOrDying()
+    ) {
+      dragStrategy.setCandidate(candidate);
+      // Later unconstrained moves continue from where the block was then.
+      info.totalDelta = step.totalDelta.clone();
+    } else {
+      info.totalDelta = step.totalDelta.clone();
+      info.dragger.onDrag(
+        info.fakePointerEvent('pointermove'),
+        info.totalDelta.clone().scale(workspace.scale),
+      );
+      this.moveIndicator?.updateLocation();
+    }
+    this.scrollCurrentElementIntoView(
+      workspace,
+      this.options.constrainedPadding ?? CONSTRAINED_ADDITIONAL_PADDING,
+    );
+    if (info.draggable instanceof BlockSvg) {
+      this.announceConnectionCandidate(info.draggable);
+    } else {
+      this.announcer.announce(
+        direction === 'back' ? 'Stepped back' : 'Stepped forward',
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Returns where the item being moved would connect if the move were
+   * finished now.
+   *
+   * @param draggable The item being moved.
+   * @returns The connection candidate, or null if there isn't one.
+   */
+  private getConnectionCandidate(
+    draggable: IDraggable,
+  ): ConnectionCandidate | null {
+    const dragStrategy = this.getDragStrategy(draggable);
+    // @ts-expect-error Access to private property connectionCandidate.
+    return (dragStrategy?.connectionCandidate as ConnectionCandidate) ?? null;
+  }
+
+  /**
+   * Returns the keyboard drag strategy of the item being moved.
+   *
+   * @param draggable The item being moved.
+   * @returns The drag strategy, or undefined if the item isn't a block being
+   *     moved with the keyboard.
+   */
+  private getDragStrategy(
+    draggable: IDraggable,
+  ): KeyboardDragStrategy | undefined {
+    if (!(draggable instanceof BlockSvg)) return undefined;
+    // @ts-expect-error block.dragStrategy is private.
+    const dragStrategy = draggable.dragStrategy;
+    return dragStrategy instanceof KeyboardDragStrategy
+      ? dragStrategy
+      : undefined;
+  }
+
+  /**
+   * Shows a menu of every place the block being moved could connect, and
+   * finishes the move at the one that is chosen.
+   *
+   * @param workspace The workspace on which we are moving.
+   * @param e The event that opened the menu.
+   * @returns True iff the menu was shown.
+   */
+  showTargetMenu(workspace: WorkspaceSvg, e: Event): boolean {
+    const info = this.moves.get(workspace);
+    if (!info) throw new Error('no move info for workspace');
+    const block = info.draggable;
+    if (!(block instanceof BlockSvg)) return false;
+
+    const dragStrategy = this.getDragStrategy(block);
+    if (!dragStrategy) return false;
+    const candidates = dragStrategy.getAllCandidates();
+    if (!candidates.length) {
+      this.announcer.announce('No places to connect', 'assertive');
+      return false;
+    }
+    const describer = this.announcer.getDescriber();
+    const scope: ContextMenuRegistry.Scope = {block};
+    const options: ContextMenuRegistry.ContextMenuOption[] = candidates.map(
+      (candidate, index) => ({
+        text: describer.describeMoveTarget(candidate.neighbour, block),
+        enabled: true,
+        callback: () => this.moveToCandidate(workspace, info, candidate),
+        scope,
+        weight: index,
+      }),
+    );
+
+    // The menu takes focus, which would otherwise finish the move. Focus
+    // comes back to the block when the menu closes.
+    const element = block.getFocusableElement();
+    element.removeEventListener('blur', info.blurListener);
+    element.addEventListener(
+      'focus',
+      () => element.addEventListener('blur', info.blurListener),
+      {once: true},
+    );
+    const rect = element.getBoundingClientRect();
+    ContextMenu.show(
+      e,
+      options,
+      workspace.RTL,
+      workspace,
+      new utils.Coordinate(rect.left, rect.bottom),
+    );
+    return true;
+  }
+
+  /**
+   * Finishes a move by connecting the block being moved to a candidate
+   * connection.
+   *
+   * @param workspace The workspace on which we are moving.
+   * @param info The info for the move, which must still be in progress.
+   * @param candidate Where to connect the block.
+   * @returns True iff the move was finished.
+   */
+  private moveToCandidate(
+    workspace: WorkspaceSvg,
+    info: MoveInfo,
+    candidate: ConnectionCandidate,
+  ): boolean {
+    if (this.moves.get(workspace) !== info) return false;
+    const dragStrategy = this.getDragStrategy(info.draggable);
+    if (!dragStrategy) return false;
+    dragStrategy.setCandidate(candidate);
+    info.updateTotalDelta();
+    return this.finishMove(workspace);
+  }
+
+  /**
+   * Announces where the item being moved would connect if the move were
+   * finished now.
+   *
+   * @param draggable The item being moved.
+   */
+  private announceConnectionCandidate(draggable: IDraggable) {
+    const neighbour = this.getConnectionCandidate(draggable)?.neighbour;
+    if (neighbour) {
+      this.announcer.announceNode(neighbour);
+    } else {
+      this.announcer.announce('No connection, will be placed on workspace');
+    }
+  }
+
   /**
    * Monkeypatch: replace the block's drag strategy and cache the old value.
    *
@@ -437,6 +796,16 @@ export class Mover {
   }
 }
 
+/**
+ * Where the element being moved was after one step of a move.
+ */
+export interface MoveStep {
+  /** Where the block would connect, if anywhere. */
+  readonly candidate: ConnectionCandidate | null;
+  /** Total distance moved, in workspace units. */
+  readonly totalDelta: utils.Coordinate;
+}
+
 /**
  * Information about the currently in-progress move for a given
  * Workspace.
@@ -444,6 +813,10 @@ export class Mover {
 export class MoveInfo {
   /** Total distance moved, in workspace units. */
   totalDelta = new utils.Coordinate(0, 0);
+  /** Each step of the move so far, starting with where it began. */
+  private steps: MoveStep[] = [];
+  /** Index into steps of where the element is now. */
+  private stepIndex = -1;
   readonly parentNext: Connection | null = null;
   readonly parentInput: Connection | null = null;
   readonly startLocation: utils.Coordinate;
@@ -453,6 +826,8 @@ export class MoveInfo {
     readonly draggable: IDraggable & IFocusableNode & IBoundedElement,
     readonly dragger: IDragger,
     readonly blurListener: EventListener,
+    readonly origin: IFocusableNode | null = null,
+    readonly restore: (() => void) | null = null,
   ) {
     if (draggable instanceof BlockSvg) {
       this.parentNext = draggable.previousConnection?.targetConnection ?? null;
@@ -486,6 +861,38 @@ export class MoveInfo {
     });
   }
 
+  /**
+   * Records where the element is after a step of the move. Any steps that
+   * were stepped back over are forgotten.
+   *
+   * @param candidate Where the block would connect, if anywhere.
+   */
+  recordStep(candidate: ConnectionCandidate | null) {
+    this.steps.length = this.stepIndex + 1;
+    this.steps.push({candidate, totalDelta: this.totalDelta.clone()});
+    this.stepIndex++;
+  }
+
+  /**
+   * Goes back to the step before the current one.
+   *
+   * @returns The step to return to, or null if this is the first step.
+   */
+  stepBack(): MoveStep | null {
+    if (this.stepIndex <= 0) return null;
+    return this.steps[--this.stepIndex];
+  }
+
+  /**
+   * Goes forward to the step after the current one, after stepping back.
+   *
+   * @returns The step to return to, or null if this is the latest step.
+   */
+  stepForward(): MoveStep | null {
+    if (this.stepIndex >= this.steps.length - 1) return null;
+    return this.steps[++this.stepIndex];
+  }
+
   /**
    * The keyboard drag may have moved a block to an appropriate location
    * for a preview. Update the saved delta to reflect the element's new
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  Events,
+  ShortcutRegistry,
+  WorkspaceSvg,
+  keyboardNavigationController,
+  utils,
+} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {getNavigableBlock} from '../block_search';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/**
+ * Actions for swapping a statement with the one above or below it, without
+ * entering move mode.
+ *
+ * These share their keys with the unconstrained moves, which are only
+ * available in move mode.
+ */
+export class ReorderAction {
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /** Swap the statement at the cursor with the one above it. */
+    {
+      name: Constants.SHORTCUT_NAMES.MOVE_STATEMENT_UP,
+      preconditionFn: (workspace) => this.canReorder(workspace, 'up'),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.reorder(workspace, 'up');
+      },
+      keyCodes: [createSerializedKey(KeyCodes.UP, [KeyCodes.ALT])],
+      allowCollision: true,
+    },
+    /** Swap the statement at the cursor with the one below it. */
+    {
+      name: Constants.SHORTCUT_NAMES.MOVE_STATEMENT_DOWN,
+      preconditionFn: (workspace) => this.canReorder(workspace, 'down'),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.reorder(workspace, 'down');
+      },
+      keyCodes: [createSerializedKey(KeyCodes.DOWN, [KeyCodes.ALT])],
+      allowCollision: true,
+    },
+  ];
+
+  /**
+   * Install the shortcuts.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+  }
+
+  /**
+   * Uninstall the shortcuts.
+   */
+  uninstall() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+  }
+
+  /**
+   * Swaps a statement with the sibling statement above or below it, as a
+   * single undoable change.
+   *
+   * @param block The statement to move.
+   * @param direction Which sibling to swap it with.
+   * @returns True if the statements were swapped.
+   */
+  moveStatement(block: BlockSvg, direction: 'up' | 'down'): boolean {
+    const pair = getSwapPair(block, direction);
+    if (!pair) return false;
+    const [first, second] = pair;
+    const parentConnection = first.previousConnection?.targetConnection;
+    const location = first.getRelativeToSurfaceXY();
+
+    const existingGroup = Events.getGroup();
+    if (!existingGroup) Events.setGroup(true);
+    // Take the second statement out, then put it back in front of the first.
+    second.unplug(true);
+    if (parentConnection && second.previousConnection) {
+      parentConnection.connect(second.previousConnection);
+    } else if (first.previousConnection) {
+      second.moveTo(location);
+      second.nextConnection?.connect(first.previousConnection);
+    }
+    Events.setGroup(existingGroup);
+    return true;
+  }
+
+  /**
+   * Moves the statement at the cursor and announces where it ended up.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @param direction Which way to move the statement.
+   * @returns True if the statement moved.
+   */
+  private reorder(workspace: WorkspaceSvg, direction: 'up' | 'down'): boolean {
+    const block = this.getStatement(workspace);
+    if (!block || !this.moveStatement(block, direction)) return false;
+    workspace.getCursor().setCurNode(block);
+    this.announcer.announceNode(
+      block,
+      direction === 'up' ? 'Moved up,' : 'Moved down,',
+    );
+    return true;
+  }
+
+  /**
+   * Returns whether the statement at the cursor can be moved.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @param direction Which way to move the statement.
+   * @returns True if there is a sibling statement to swap with.
+   */
+  private canReorder(
+    workspace: WorkspaceSvg,
+    direction: 'up' | 'down',
+  ): boolean {
+    const block = this.getStatement(workspace);
+    return !!block && !!getSwapPair(block, direction);
+  }
+
+  /**
+   * Returns the statement block the cursor is on or in.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns The block, or null if the cursor isn't on a block that can be
+   *     moved.
+   */
+  private getStatement(workspace: WorkspaceSvg): BlockSvg | null {
+    if (workspace.isFlyout || workspace.isDragging()) return null;
+    if (!this.navigation.canCurrentlyEdit(workspace)) return null;
+    const source = workspace.getCursor().getSourceBlock();
+    const block = source ? getNavigableBlock(source) : null;
+    return block?.previousConnection && block.isMovable() ? block : null;
+  }
+}
+
+/**
+ * Returns the two statements that would be swapped to move a statement up
+ * or down.
+ *
+ * @param block The statement to move.
+ * @param direction Which way to move it.
+ * @returns The upper and lower statements, or null if the statement can't
+ *     move that way.
+ */
+function getSwapPair(
+  block: BlockSvg,
+  direction: 'up' | 'down',
+): [BlockSvg, BlockSvg] | null {
+  let pair: [BlockSvg, BlockSvg] | null = null;
+  if (direction === 'down') {
+    const next = block.getNextBlock();
+    if (next) pair = [block, next];
+  } else {
+    const previous = block.getPreviousBlock();
+    if (previous?.getNextBlock() === block) pair = [previous, block];
+  }
+  if (!pair) return null;
+  const [first, second] = pair;
+  // The lower statement must be able to go where the upper one is, and be
+  // followed by it.
+  const checker = block.workspace.connectionChecker;
+  const parentConnection = first.previousConnection?.targetConnection;
+  if (
+    !first.isMovable() ||
+    !second.isMovable() ||
+    !second.previousConnection ||
+    !second.nextConnection ||
+    !first.previousConnection ||
+    !checker.canConnect(second.nextConnection, first.previousConnection, false)
+  ) {
+    return null;
+  }
+  if (
+    parentConnection &&
+    !checker.canConnect(parentConnection, second.previousConnection, false)
+  ) {
+    return null;
+  }
+  return pair;
+}
@@ -0,0 +1,329 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  Events,
+  Field,
+  FieldDropdown,
+  FieldNumber,
+  FieldTextInput,
+  FieldVariable,
+  ShortcutRegistry,
+  WorkspaceSvg,
+  dialog,
+  keyboardNavigationController,
+  utils,
+} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import type {FindAction} from './find';
+import {
+  findMatchingBlocks,
+  getMatchingFields,
+  getNavigableBlock,
+} from '../block_search';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/**
+ * Actions for replacing text in the values of text, number, dropdown and
+ * variable fields that match a workspace search.
+ */
+export class ReplaceAction {
+  /** The most recent replacement text. */
+  private replacement = '';
+
+  constructor(
+    private navigation: Navigation,
+    private findAction: FindAction,
+    private announcer: Announcer,
+  ) {}
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /**
+     * Replace in the match the cursor is on and go to the next match, or go
+     * to the next match if the cursor is not on one.
+     */
+    {
+      name: Constants.SHORTCUT_NAMES.REPLACE,
+      preconditionFn: (workspace) => this.canReplace(workspace),
+      callback: (workspace, e) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        if (!targetWorkspace) return false;
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        this.promptForReplacement((query, replacement) =>
+          this.replaceOne(targetWorkspace, query, replacement),
+        );
+        return true;
+      },
+      keyCodes: [createSerializedKey(KeyCodes.F, [KeyCodes.SHIFT])],
+    },
+    /** Replace in every match on the workspace. */
+    {
+      name: Constants.SHORTCUT_NAMES.REPLACE_ALL,
+      preconditionFn: (workspace) => this.canReplace(workspace),
+      callback: (workspace, e) => {
+        const targetWorkspace = this.getTargetWorkspace(workspace);
+        if (!targetWorkspace) return false;
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        this.promptForReplacement((query, replacement) =>
+          this.replaceAll(targetWorkspace, query, replacement),
+        );
+        return true;
+      },
+      keyCodes: [
+        createSerializedKey(KeyCodes.F, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.F, [KeyCodes.META, KeyCodes.SHIFT]),
+      ],
+    },
+  ];
+
+  /**
+   * Install the shortcuts.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+  }
+
+  /**
+   * Uninstall the shortcuts.
+   */
+  uninstall() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+  }
+
+  /**
+   * Replaces text in the fields of the match the cursor is on, then moves to
+   * the next match. If the cursor is not on a match it only moves to the next
+   * match, so that the user can hear what will be replaced.
+   *
+   * All changes are made in a single event group, so they are undone
+   * together.
+   *
+   * @param workspace The main workspace.
+   * @param query The text to replace.
+   * @param replacement The text to replace it with.
+   * @returns The number of field values that were changed.
+   */
+  replaceOne(
+    workspace: WorkspaceSvg,
+    query: string,
+    replacement: string,
+  ): number {
+    const current = workspace.getCursor().getSourceBlock();
+    const matches = findMatchingBlocks(workspace, query);
+    if (!(current instanceof BlockSvg) || !matches.includes(current)) {
+      this.findAction.find(workspace, query);
+      return 0;
+    }
+
+    const fields = current
+      .getDescendants(true)
+      .filter((block) => getNavigableBlock(block) === current)
+      .flatMap((block) => getMatchingFields(block, query));
+    const count = this.replaceInFields(fields, query, replacement);
+    this.announceResult(count, count ? 1 : 0);
+    if (findMatchingBlocks(workspace, query).length) {
+      this.findAction.find(workspace, query);
+    }
+    return count;
+  }
+
+  /**
+   * Replaces text in the fields of every match on the workspace.
+   *
+   * All changes are made in a single event group, so they are undone
+   * together.
+   *
+   * @param workspace The main workspace.
+   * @param query The text to replace.
+   * @param replacement The text to replace it with.
+   * @returns The number of field values that were changed.
+   */
+  replaceAll(
+    workspace: WorkspaceSvg,
+    query: string,
+    replacement: string,
+  ): number {
+    const fields = workspace
+      .getAllBlocks(false)
+      .flatMap((block) => getMatchingFields(block, query));
+    const changedBlocks = new Set<BlockSvg>();
+    const count = this.replaceInFields(fields, query, replacement, (field) => {
+      const block = field.getSourceBlock();
+      const target =
+        block instanceof BlockSvg ? getNavigableBlock(block) : null;
+      if (target) changedBlocks.add(target);
+    });
+    this.announceResult(count, changedBlocks.size);
+    return count;
+  }
+
+  /**
+   * Replaces text in the values of the given fields, in a single event group.
+   *
+   * @param fields The fields to change.
+   * @param query The text to replace.
+   * @param replacement The text to replace it with.
+   * @param onChange Called with each field whose value changed.
+   * @returns The number of field values that were changed.
+   */
+  private replaceInFields(
+    fields: Field[],
+    query: string,
+    replacement: string,
+    onChange?: (field: Field) => void,
+  ): number {
+    const existingGroup = Events.getGroup();
+    if (!existingGroup) {
+      Events.setGroup(true);
+    }
+    let count = 0;
+    try {
+      for (const field of fields) {
+        if (replaceInField(field, query, replacement)) {
+          count++;
+          onChange?.(field);
+        }
+      }
+    } finally {
+      if (!existingGroup) {
+        Events.setGroup(false);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Announces how many values were replaced.
+   *
+   * @param count The number of field values that were changed.
+   * @param blockCount The number of blocks that were changed.
+   */
+  private announceResult(count: number, blockCount: number) {
+    if (!count) {
+      this.announcer.announce('Nothing was replaced', 'assertive');
+      return;
+    }
+    this.announcer.announce(
+      `Replaced ${count} value${count === 1 ? '' : 's'} in ` +
+        `${blockCount} block${blockCount === 1 ? '' : 's'}`,
+    );
+  }
+
+  /**
+   * Returns whether the replace shortcuts can be used.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns True if the main workspace can be edited.
+   */
+  private canReplace(workspace: WorkspaceSvg): boolean {
+    const targetWorkspace = this.getTargetWorkspace(workspace);
+    return (
+      !!targetWorkspace && this.navigation.canCurrentlyEdit(targetWorkspace)
+    );
+  }
+
+  /**
+   * Returns the workspace to make replacements in.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns The main workspace, or null if there isn't one.
+   */
+  private getTargetWorkspace(workspace: WorkspaceSvg): WorkspaceSvg | null {
+    return workspace.isFlyout ? workspace.targetWorkspace ?? null : workspace;
+  }
+
+  /**
+   * Asks the user what to replace and what to replace it with.
+   *
+   * @param callback Called with the answers, unless the user cancels.
+   */
+  private promptForReplacement(
+    callback: (query: string, replacement: string) => void,
+  ) {
+    dialog.prompt('Replace:', this.findAction.getQuery(), (query) => {
+      query = query?.trim() ?? '';
+      if (!query) return;
+      dialog.prompt(
+        `Replace "${query}" with:`,
+        this.replacement,
+        (replacement) => {
+          if (replacement === null) return;
+          this.replacement = replacement;
+          callback(query, replacement);
+        },
+      );
+    });
+  }
+}
+
+/**
+ * Replaces every occurrence of the query in the text of a field, ignoring
+ * case, and sets the field's value to match.
+ *
+ * Text and number fields take the new text as their value. Dropdowns take
+ * the option whose text matches the new text, if there is one. Variable
+ * fields are changed to refer to the variable named by the new text, which
+ * is created if necessary.
+ *
+ * @param field The field to change.
+ * @param query The text to replace.
+ * @param replacement The text to replace it with.
+ * @returns True if the field's value changed.
+ */
+function replaceInField(
+  field: Field,
+  query: string,
+  replacement: string,
+): boolean {
+  if (!field.isCurrentlyEditable()) return false;
+  const pattern = new RegExp(
+    query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+    'gi',
+  );
+  const oldValue = field.getValue();
+  const newText = field.getText().replace(pattern, () => replacement);
+
+  if (field instanceof FieldVariable) {
+    const variable = field.getVariable();
+    const workspace = field.getSourceBlock()?.workspace;
+    if (!variable || !workspace || !newText) return false;
+    const type = variable.getType();
+    const variableMap = workspace.getVariableMap();
+    const target =
+      variableMap.getVariable(newText, type) ??
+      variableMap.createVariable(newText, type);
+    field.setValue(target.getId());
+  } else if (field instanceof FieldDropdown) {
+    const option = field
+      .getOptions(false)
+      .find(
+        (option) =>
+          option !== 'separator' &&
+          typeof option[0] === 'string' &&
+          option[0].toLowerCase() === newText.toLowerCase(),
+      );
+    if (!option || option === 'separator') return false;
+    field.setValue(option[1]);
+  } else if (field instanceof FieldTextInput || field instanceof FieldNumber) {
+    field.setValue(`${oldValue}`.replace(pattern, () => replacement));
+  } else {
+    return false;
+  }
+  return field.getValue() !== oldValue;
+}
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  ContextMenuRegistry,
+  Events,
+  ShortcutRegistry,
+  WorkspaceSvg,
+  constants,
+  keyboardNavigationController,
+  utils,
+} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {getNavigableBlock} from '../block_search';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/**
+ * Actions for selecting several statement blocks, so that delete, cut, copy,
+ * duplicate, disable and move apply to all of them.
+ *
+ * Shift and the up or down arrow extends a range of sibling statements, and
+ * Shift + Space adds or removes a single block.
+ */
+export class SelectionAction {
+  /**
+   * Saved core disable context menu item, which is restored when this action
+   * is uninstalled.
+   */
+  private oldDisableItem: ContextMenuRegistry.RegistryItem | null = null;
+
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /** Add the block at the cursor to the selection, or remove it. */
+    {
+      name: Constants.SHORTCUT_NAMES.TOGGLE_SELECTION,
+      preconditionFn: (workspace) => !!this.getSelectableBlock(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.toggle(workspace);
+      },
+      keyCodes: [createSerializedKey(KeyCodes.SPACE, [KeyCodes.SHIFT])],
+    },
+    /** Extend the selection to the previous statement. */
+    {
+      name: Constants.SHORTCUT_NAMES.EXTEND_SELECTION_UP,
+      preconditionFn: (workspace) => !!this.getSelectableBlock(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.extend(workspace, 'up');
+      },
+      keyCodes: [createSerializedKey(KeyCodes.UP, [KeyCodes.SHIFT])],
+    },
+    /** Extend the selection to the next statement. */
+    {
+      name: Constants.SHORTCUT_NAMES.EXTEND_SELECTION_DOWN,
+      preconditionFn: (workspace) => !!this.getSelectableBlock(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.extend(workspace, 'down');
+      },
+      keyCodes: [createSerializedKey(KeyCodes.DOWN, [KeyCodes.SHIFT])],
+    },
+    /** Deselect all the blocks. */
+    {
+      name: Constants.SHORTCUT_NAMES.CLEAR_SELECTION,
+      // Escape aborts a move of the selected blocks instead.
+      preconditionFn: (workspace) =>
+        this.navigation.canCurrentlyNavigate(workspace) &&
+        !workspace.isDragging() &&
+        this.navigation.getSelection().getBlocks(workspace).length > 0,
+      callback: (workspace) => {
+        this.navigation.getSelection().clear(workspace);
+        this.announcer.announce('Selection cleared');
+        return true;
+      },
+      keyCodes: [KeyCodes.ESC],
+      allowCollision: true,
+    },
+  ];
+
+  /**
+   * Install the shortcuts, and make the disable context menu item apply to
+   * the selection.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+    this.registerDisableContextMenuAction();
+  }
+
+  /**
+   * Uninstall the shortcuts, and restore the disable context menu item.
+   */
+  uninstall() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+    if (this.oldDisableItem) {
+      ContextMenuRegistry.registry.unregister('blockDisable');
+      ContextMenuRegistry.registry.register(this.oldDisableItem);
+      this.oldDisableItem = null;
+    }
+  }
+
+  /**
+   * Adds the block at the cursor to the selection, or removes it.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @returns True if the selection changed.
+   */
+  private toggle(workspace: WorkspaceSvg): boolean {
+    const block = this.getSelectableBlock(workspace);
+    if (!block) return false;
+    const selection = this.navigation.getSelection();
+    const selected = selection.toggle(block);
+    const count = selection.getBlocks(workspace).length;
+    this.announcer.announceNode(
+      block,
+      `${selected ? 'Selected' : 'Deselected'}, ${describeCount(count)},`,
+    );
+    return true;
+  }
+
+  /**
+   * Moves the cursor to the neighbouring statement and selects the range
+   * from the anchor to it.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @param direction Which statement to extend the selection to.
+   * @returns True if the selection changed.
+   */
+  private extend(workspace: WorkspaceSvg, direction: 'up' | 'down'): boolean {
+    const block = this.getSelectableBlock(workspace);
+    if (!block) return false;
+    const previous = block.getPreviousBlock();
+    const target =
+      direction === 'up'
+        ? previous?.getNextBlock() === block
+          ? previous
+          : null
+        : block.getNextBlock();
+    if (!target) {
+      this.announcer.announce(
+        direction === 'up' ? 'No statement above' : 'No statement below',
+        'assertive',
+      );
+      return false;
+    }
+
+    const selection = this.navigation.getSelection();
+    selection.selectRange(block, target);
+    workspace.getCursor().setCurNode(target);
+    const count = selection.getBlocks(workspace).length;
+    this.announcer.announceNode(target, `${describeCount(count)},`);
+    return true;
+  }
+
+  /**
+   * Replaces the core disable context menu item with one that enables or
+   * disables every selected block when used on one of them.
+   */
+  private registerDisableContextMenuAction() {
+    const original = ContextMenuRegistry.registry.getItem('blockDisable');
+    if (!original || !('callback' in original) || !original.callback) return;
+    this.oldDisableItem = original;
+    const originalCallback = original.callback;
+
+    const override: ContextMenuRegistry.RegistryItem = {
+      ...original,
+      callback: (
+        scope: ContextMenuRegistry.Scope,
+        menuOpenEvent: Event,
+        menuSelectEvent: Event,
+        location: utils.Coordinate,
+      ) => {
+        const blocks = scope.block
+          ? this.navigation.getSelection().getTargets(scope.block as BlockSvg)
+          : [];
+        if (!scope.block || blocks.length < 2) {
+          originalCallback(scope, menuOpenEvent, menuSelectEvent, location);
+          return;
+        }
+        const disable = !scope.block.hasDisabledReason(
+          constants.MANUALLY_DISABLED,
+        );
+        const existingGroup = Events.getGroup();
+        if (!existingGroup) Events.setGroup(true);
+        for (const block of blocks) {
+          block.setDisabledReason(disable, constants.MANUALLY_DISABLED);
+        }
+        Events.setGroup(existingGroup);
+        this.announcer.announce(
+          `${disable ? 'Disabled' : 'Enabled'} ${blocks.length} blocks`,
+        );
+      },
+    };
+    ContextMenuRegistry.registry.unregister('blockDisable');
+    ContextMenuRegistry.registry.register(override);
+  }
+
+  /**
+   * Returns the block the selection shortcuts would act on.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns The statement block the cursor is on or in, or null if there
+   *     isn't one.
+   */
+  private getSelectableBlock(workspace: WorkspaceSvg): BlockSvg | null {
+    if (workspace.isFlyout || workspace.isDragging()) return null;
+    if (!this.navigation.canCurrentlyEdit(workspace)) return null;
+    const source = workspace.getCursor().getSourceBlock();
+    const block = source ? getNavigableBlock(source) : null;
+    return block && this.navigation.getSelection().canSelect(block)
+      ? block
+      : null;
+  }
+}
+
+/**
+ * Describes how many blocks are selected.
+ *
+ * @param count The number of selected blocks.
+ * @returns The description to announce.
+ */
+function describeCount(count: number): string {
+  return `${count} ${count === 1 ? 'block' : 'blocks'} selected`;
+}
@@ -6,6 +6,8 @@
 
 import {ShortcutRegistry, WorkspaceSvg, utils} from 'blockly/core';
 import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
 
 /**
  * Class for registering a shortcut for quick movement between top level bounds
@@ -14,6 +16,11 @@ import * as Constants from '../constants';
 export class StackNavigationAction {
   private stackShortcuts: ShortcutRegistry.KeyboardShortcut[] = [];
 
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
   install() {
     const preconditionFn = (workspace: WorkspaceSvg) =>
       !!getCurNodeRoot(workspace);
@@ -34,7 +41,9 @@ export class StackNavigationAction {
           .getNavigator()
           .getPreviousSibling(curNodeRoot);
         if (!prevRoot) return false;
+        this.navigation.getHistory().record(workspace);
         workspace.getCursor().setCurNode(prevRoot);
+        this.announcer.announceNode(prevRoot, 'Previous stack,');
         return true;
       },
       keyCodes: [utils.KeyCodes.B],
@@ -48,7 +57,9 @@ export class StackNavigationAction {
         if (!curNodeRoot) return false;
         const nextRoot = workspace.getNavigator().getNextSibling(curNodeRoot);
         if (!nextRoot) return false;
+        this.navigation.getHistory().record(workspace);
         workspace.getCursor().setCurNode(nextRoot);
+        this.announcer.announceNode(nextRoot, 'Next stack,');
         return true;
       },
       keyCodes: [utils.KeyCodes.N],
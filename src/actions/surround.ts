@@ -0,0 +1,474 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  ContextMenuRegistry,
+  Events,
+  RenderedConnection,
+  ShortcutRegistry,
+  WorkspaceSvg,
+  inputs,
+  keyboardNavigationController,
+  serialization,
+  utils,
+} from 'blockly/core';
+import type {Block, Connection, Input} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+import {getNavigableBlock} from '../block_search';
+import {BlockPalette, PaletteItem} from '../block_palette';
+import {getMenuItem} from '../shortcut_formatting';
+import {getToolboxBlocks} from './insert_palette';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/**
+ * Actions for wrapping statements in a C-shaped block from the toolbox, such
+ * as a loop or an if block, and for lifting the statements back out.
+ *
+ * Surrounding acts on the selection if the block at the cursor is part of
+ * it, as long as the selected blocks follow on from each other.
+ */
+export class SurroundAction {
+  private palette: BlockPalette;
+
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {
+    this.palette = new BlockPalette(announcer);
+  }
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /** Choose a block to wrap the statements at the cursor in. */
+    {
+      name: Constants.SHORTCUT_NAMES.SURROUND_WITH,
+      preconditionFn: (workspace) => !!this.getSurroundTargets(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.showContainers(workspace);
+      },
+      keyCodes: [createSerializedKey(KeyCodes.I, [KeyCodes.SHIFT])],
+    },
+    /** Replace the block at the cursor with the statements inside it. */
+    {
+      name: Constants.SHORTCUT_NAMES.UNWRAP,
+      preconditionFn: (workspace) => !!this.getUnwrapTarget(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        const block = this.getUnwrapTarget(workspace);
+        return !!block && this.unwrapAndAnnounce(block);
+      },
+      keyCodes: [createSerializedKey(KeyCodes.X, [KeyCodes.SHIFT])],
+    },
+  ];
+
+  /**
+   * Install the shortcuts and context menu items.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+    this.registerContextMenuActions();
+  }
+
+  /**
+   * Uninstall the shortcuts and context menu items.
+   */
+  uninstall() {
+    this.palette.hide();
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+    ContextMenuRegistry.registry.unregister('surroundWith');
+    ContextMenuRegistry.registry.unregister('unwrap');
+  }
+
+  /**
+   * Creates a block and moves a run of sibling statements into its first
+   * statement input, in the place the statements were, as a single undoable
+   * change.
+   *
+   * @param blocks The statements to surround, in order.
+   * @param state The serialized block to surround them with.
+   * @returns The new block, or null if the statements could not be
+   *     surrounded with it.
+   */
+  surround(
+    blocks: BlockSvg[],
+    state: serialization.blocks.State,
+  ): BlockSvg | null {
+    if (!isStatementRun(blocks)) return null;
+    const first = blocks[0];
+    const last = blocks[blocks.length - 1];
+    const workspace = first.workspace;
+    const parentConnection = first.previousConnection?.targetConnection;
+    const after = last.getNextBlock();
+    const location = first.getRelativeToSurfaceXY();
+
+    // Create the block without events so that it leaves nothing on the undo
+    // stack if the statements can't go inside it.
+    Events.disable();
+    let container: BlockSvg;
+    try {
+      const block = serialization.blocks.append(state, workspace, {
+        recordUndo: false,
+      });
+      if (!(block instanceof BlockSvg)) return null;
+      container = block;
+      // Render to get the sizing right.
+      container.render();
+      // Connections are not tracked until the block has been rendered.
+      container.setConnectionTracking(true);
+      if (!canSurround(container, first, parentConnection, after)) {
+        container.dispose(false);
+        return null;
+      }
+    } finally {
+      Events.enable();
+    }
+
+    const existingGroup = Events.getGroup();
+    if (!existingGroup) Events.setGroup(true);
+    try {
+      Events.fire(new Events.BlockCreate(container));
+      // Take the statements out, put the new block where they were, then put
+      // them inside it.
+      last.nextConnection?.disconnect();
+      first.previousConnection?.disconnect();
+      if (parentConnection) {
+        this.navigation.moveAndConnect(
+          container.previousConnection,
+          parentConnection,
+        );
+      } else {
+        container.moveTo(location);
+      }
+      this.navigation.moveAndConnect(
+        first.previousConnection,
+        getStatementInput(container)?.connection as RenderedConnection | null,
+      );
+      if (after?.previousConnection) {
+        this.navigation.moveAndConnect(
+          after.previousConnection,
+          container.nextConnection,
+        );
+      }
+      return container;
+    } finally {
+      Events.setGroup(existingGroup);
+    }
+  }
+
+  /**
+   * Replaces a block with the statements in its first statement input, as a
+   * single undoable change. Blocks with anything else attached to them, other
+   * than shadow blocks, can't be unwrapped.
+   *
+   * @param container The block to unwrap.
+   * @returns True if the block was unwrapped.
+   */
+  unwrap(container: BlockSvg): boolean {
+    if (!canUnwrap(container)) return false;
+    const connection = getStatementInput(container)?.connection;
+    const first = connection?.targetBlock() as BlockSvg | null;
+    if (!connection || !first?.previousConnection) return false;
+    let last = first;
+    for (let next = last.getNextBlock(); next; next = next.getNextBlock()) {
+      last = next;
+    }
+    const parentConnection = container.previousConnection?.targetConnection;
+    const after = container.getNextBlock();
+    const location = container.getRelativeToSurfaceXY();
+
+    const existingGroup = Events.getGroup();
+    if (!existingGroup) Events.setGroup(true);
+    connection.disconnect();
+    container.nextConnection?.disconnect();
+    container.dispose(false);
+    if (parentConnection) {
+      this.navigation.moveAndConnect(
+        first.previousConnection,
+        parentConnection,
+      );
+    } else {
+      first.moveTo(location);
+    }
+    if (after?.previousConnection) {
+      this.navigation.moveAndConnect(
+        after.previousConnection,
+        last.nextConnection,
+      );
+    }
+    Events.setGroup(existingGroup);
+    return true;
+  }
+
+  /**
+   * Lists the blocks in the workspace's toolbox that statements can be
+   * wrapped in.
+   *
+   * @param workspace The workspace whose toolbox should be searched.
+   * @returns The blocks, in toolbox order.
+   */
+  getContainers(workspace: WorkspaceSvg): PaletteItem[] {
+    return getToolboxBlocks(
+      workspace,
+      (block) =>
+        !!block.previousConnection &&
+        !!block.nextConnection &&
+        !!getStatementInput(block),
+    );
+  }
+
+  /**
+   * Opens the palette of blocks the statements at the cursor can be wrapped
+   * in.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @returns True if the palette was shown.
+   */
+  private showContainers(workspace: WorkspaceSvg): boolean {
+    const blocks = this.getSurroundTargets(workspace);
+    if (!blocks) return false;
+    const items = this.getContainers(workspace);
+    if (!items.length) {
+      this.announcer.announce(
+        'There are no blocks to surround these with',
+        'assertive',
+      );
+      return false;
+    }
+    this.palette.show(workspace, items, (item) => {
+      const container = this.surround(blocks, item.state);
+      if (!container) {
+        this.announcer.announce(
+          `These blocks can't go inside ${item.label}`,
+          'assertive',
+        );
+        return;
+      }
+      this.navigation.getSelection().clear(workspace);
+      workspace.getCursor().setCurNode(container);
+      this.announcer.announceNode(container, 'Surrounded with');
+    });
+    return true;
+  }
+
+  /**
+   * Unwraps a block and moves the cursor to the first statement that was in
+   * it.
+   *
+   * @param container The block to unwrap.
+   * @returns True if the block was unwrapped.
+   */
+  private unwrapAndAnnounce(container: BlockSvg): boolean {
+    const workspace = container.workspace;
+    const first = getStatementInput(container)?.connection?.targetBlock();
+    if (!first || !this.unwrap(container)) return false;
+    this.navigation.getSelection().clear(workspace);
+    workspace.getCursor().setCurNode(first as BlockSvg);
+    this.announcer.announceNode(first as BlockSvg, 'Unwrapped,');
+    return true;
+  }
+
+  /**
+   * Returns the statements the surround shortcut would act on.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns The selected statements if the block at the cursor is selected,
+   *     otherwise that block, or null if they can't be surrounded.
+   */
+  private getSurroundTargets(workspace: WorkspaceSvg): BlockSvg[] | null {
+    if (workspace.isFlyout || workspace.isDragging()) return null;
+    if (!this.navigation.canCurrentlyEdit(workspace)) return null;
+    if (!workspace.options.languageTree) return null;
+    const source = workspace.getCursor().getSourceBlock();
+    const block = source ? getNavigableBlock(source) : null;
+    if (!block) return null;
+    const blocks = this.navigation.getSelection().getTargets(block);
+    return isStatementRun(blocks) ? blocks : null;
+  }
+
+  /**
+   * Returns the block the unwrap shortcut would act on.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns The block at the cursor, or null if it can't be unwrapped.
+   */
+  private getUnwrapTarget(workspace: WorkspaceSvg): BlockSvg | null {
+    if (workspace.isFlyout || workspace.isDragging()) return null;
+    if (!this.navigation.canCurrentlyEdit(workspace)) return null;
+    const source = workspace.getCursor().getSourceBlock();
+    const block = source ? getNavigableBlock(source) : null;
+    return block && canUnwrap(block) ? block : null;
+  }
+
+  /**
+   * Registers the surround and unwrap context menu items on blocks.
+   */
+  private registerContextMenuActions() {
+    const surroundItem: ContextMenuRegistry.RegistryItem = {
+      displayText: () =>
+        getMenuItem('Surround with…', Constants.SHORTCUT_NAMES.SURROUND_WITH),
+      preconditionFn: (scope: ContextMenuRegistry.Scope) => {
+        const workspace = scope.block?.workspace as WorkspaceSvg | undefined;
+        if (!workspace) return 'hidden';
+        return this.getSurroundTargets(workspace) ? 'enabled' : 'hidden';
+      },
+      callback: (scope: ContextMenuRegistry.Scope) => {
+        const workspace = scope.block?.workspace as WorkspaceSvg | undefined;
+        if (!workspace) return false;
+        keyboardNavigationController.setIsActive(true);
+        return this.showContainers(workspace);
+      },
+      scopeType: ContextMenuRegistry.ScopeType.BLOCK,
+      id: 'surroundWith',
+      weight: 11,
+    };
+    const unwrapItem: ContextMenuRegistry.RegistryItem = {
+      displayText: () => getMenuItem('Unwrap', Constants.SHORTCUT_NAMES.UNWRAP),
+      preconditionFn: (scope: ContextMenuRegistry.Scope) =>
+        scope.block instanceof BlockSvg && canUnwrap(scope.block)
+          ? 'enabled'
+          : 'hidden',
+      callback: (scope: ContextMenuRegistry.Scope) => {
+        if (!(scope.block instanceof BlockSvg)) return false;
+        keyboardNavigationController.setIsActive(true);
+        return this.unwrapAndAnnounce(scope.block);
+      },
+      scopeType: ContextMenuRegistry.ScopeType.BLOCK,
+      id: 'unwrap',
+      weight: 12,
+    };
+
+    ContextMenuRegistry.registry.register(surroundItem);
+    ContextMenuRegistry.registry.register(unwrapItem);
+  }
+}
+
+/**
+ * Returns the first statement input on a block.
+ *
+ * @param block The block to look at.
+ * @returns The input, or undefined if the block has no statement inputs.
+ */
+function getStatementInput(block: Block): Input | undefined {
+  return block.inputList.find(
+    (input) => input.type === inputs.inputTypes.STATEMENT && input.connection,
+  );
+}
+
+/**
+ * Returns whether blocks are movable statements that follow on from each
+ * other in a stack.
+ *
+ * @param blocks The blocks to check, in order.
+ * @returns True if the blocks can be surrounded together.
+ */
+function isStatementRun(blocks: BlockSvg[]): boolean {
+  if (!blocks.length) return false;
+  return blocks.every(
+    (block, i) =>
+      !!block.previousConnection &&
+      block.isMovable() &&
+      !block.isShadow() &&
+      (i === 0 || blocks[i - 1].getNextBlock() === block),
+  );
+}
+
+/**
+ * Returns whether a block has statements in its first statement input that
+ * can take its place, and nothing else attached that would be deleted with
+ * it.
+ *
+ * @param container The block to check.
+ * @returns True if the block can be unwrapped.
+ */
+function canUnwrap(container: BlockSvg): boolean {
+  if (
+    container.isInFlyout ||
+    !container.isDeletable() ||
+    !container.previousConnection
+  ) {
+    return false;
+  }
+  const input = getStatementInput(container);
+  const first = input?.connection?.targetBlock();
+  if (!first?.previousConnection || !first.isMovable()) return false;
+  const hasOtherBlocks = container.inputList.some((other) => {
+    const block = other.connection?.targetBlock();
+    return other !== input && !!block && !block.isShadow();
+  });
+  if (hasOtherBlocks) return false;
+  let last = first;
+  for (let next = last.getNextBlock(); next; next = next.getNextBlock()) {
+    last = next;
+  }
+  const checker = container.workspace.connectionChecker;
+  const parentConnection = container.previousConnection.targetConnection;
+  const after = container.getNextBlock();
+  if (
+    parentConnection &&
+    !checker.canConnect(parentConnection, first.previousConnection, false)
+  ) {
+    return false;
+  }
+  return (
+    !after?.previousConnection ||
+    (!!last.nextConnection &&
+      checker.canConnect(last.nextConnection, after.previousConnection, false))
+  );
+}
+
+/**
+ * Returns whether a new block can surround a run of statements in the place
+ * they are.
+ *
+ * @param container The new block.
+ * @param first The first statement.
+ * @param parentConnection The connection the first statement is attached to,
+ *     if any.
+ * @param after The block after the last statement, if any.
+ * @returns True if the statements can go inside the block, and the block can
+ *     go where they were.
+ */
+function canSurround(
+  container: BlockSvg,
+  first: BlockSvg,
+  parentConnection: Connection | null | undefined,
+  after: Block | null,
+): boolean {
+  const connection = getStatementInput(container)?.connection;
+  const checker = container.workspace.connectionChecker;
+  return (
+    !!connection &&
+    !!first.previousConnection &&
+    !!container.previousConnection &&
+    checker.canConnect(connection, first.previousConnection, false) &&
+    (!parentConnection ||
+      checker.canConnect(
+        parentConnection,
+        container.previousConnection,
+        false,
+      )) &&
+    (!after?.previousConnection ||
+      (!!container.nextConnection &&
+        checker.canConnect(
+          container.nextConnection,
+          after.previousConnection,
+          false,
+        )))
+  );
+}
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ShortcutRegistry,
+  WorkspaceSvg,
+  keyboardNavigationController,
+  utils,
+} from 'blockly/core';
+import * as Constants from '../constants';
+import type {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/**
+ * The fraction of the visible workspace to pan by.
+ */
+const PAN_FRACTION = 0.5;
+
+/**
+ * Space to leave around a stack when zooming to fit it, in pixels.
+ */
+const ZOOM_TO_STACK_PADDING = 20;
+
+/**
+ * Keyboard shortcuts for panning and zooming the workspace without moving
+ * the cursor.
+ *
+ * These only change the view, so they are available on read-only workspaces
+ * too. Panning and zooming to a stack need a workspace that can be scrolled.
+ */
+export class ViewportAction {
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
+
+  private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
+    /** Pan the view up. */
+    {
+      name: Constants.SHORTCUT_NAMES.PAN_UP,
+      preconditionFn: (workspace) => this.canPan(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.pan(workspace, 0, -1);
+      },
+      keyCodes: [KeyCodes.PAGE_UP],
+    },
+    /** Pan the view down. */
+    {
+      name: Constants.SHORTCUT_NAMES.PAN_DOWN,
+      preconditionFn: (workspace) => this.canPan(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.pan(workspace, 0, 1);
+      },
+      keyCodes: [KeyCodes.PAGE_DOWN],
+    },
+    /** Pan the view left. */
+    {
+      name: Constants.SHORTCUT_NAMES.PAN_LEFT,
+      preconditionFn: (workspace) => this.canPan(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.pan(workspace, -1, 0);
+      },
+      keyCodes: [createSerializedKey(KeyCodes.PAGE_UP, [KeyCodes.ALT])],
+    },
+    /** Pan the view right. */
+    {
+      name: Constants.SHORTCUT_NAMES.PAN_RIGHT,
+      preconditionFn: (workspace) => this.canPan(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.pan(workspace, 1, 0);
+      },
+      keyCodes: [createSerializedKey(KeyCodes.PAGE_DOWN, [KeyCodes.ALT])],
+    },
+    /** Zoom in around the cursor. */
+    {
+      name: Constants.SHORTCUT_NAMES.ZOOM_IN,
+      preconditionFn: (workspace) => this.canZoom(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.zoom(workspace, 1);
+      },
+      keyCodes: [
+        KeyCodes.EQUALS,
+        KeyCodes.FF_EQUALS,
+        createSerializedKey(KeyCodes.EQUALS, [KeyCodes.SHIFT]),
+        createSerializedKey(KeyCodes.FF_EQUALS, [KeyCodes.SHIFT]),
+        KeyCodes.NUM_PLUS,
+      ],
+    },
+    /** Zoom out around the cursor. */
+    {
+      name: Constants.SHORTCUT_NAMES.ZOOM_OUT,
+      preconditionFn: (workspace) => this.canZoom(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.zoom(workspace, -1);
+      },
+      keyCodes: [KeyCodes.DASH, KeyCodes.FF_DASH, KeyCodes.NUM_MINUS],
+    },
+    /** Go back to the starting zoom level, around the cursor. */
+    {
+      name: Constants.SHORTCUT_NAMES.ZOOM_RESET,
+      preconditionFn: (workspace) => this.canZoom(workspace),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.resetZoom(workspace);
+      },
+      keyCodes: [KeyCodes.ZERO, KeyCodes.NUM_ZERO],
+    },
+    /** Zoom so that the stack the cursor is in fills the view. */
+    {
+      name: Constants.SHORTCUT_NAMES.ZOOM_TO_STACK,
+      preconditionFn: (workspace) =>
+        this.canPan(workspace) && !!workspace.getCursor().getSourceBlock(),
+      callback: (workspace, e) => {
+        e.preventDefault();
+        keyboardNavigationController.setIsActive(true);
+        return this.zoomToStack(workspace);
+      },
+      keyCodes: [KeyCodes.Z],
+    },
+  ];
+
+  /**
+   * Install the shortcuts.
+   */
+  install() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.register(shortcut);
+    }
+  }
+
+  /**
+   * Uninstall the shortcuts.
+   */
+  uninstall() {
+    for (const shortcut of this.shortcuts) {
+      ShortcutRegistry.registry.unregister(shortcut.name);
+    }
+  }
+
+  /**
+   * Scrolls the view by a fraction of its size.
+   *
+   * @param workspace The workspace to scroll.
+   * @param xDirection -1 to pan left, 1 to pan right.
+   * @param yDirection -1 to pan up, 1 to pan down.
+   * @returns True if the view was scrolled.
+   */
+  pan(workspace: WorkspaceSvg, xDirection: number, yDirection: number) {
+    const metrics = workspace.getMetricsManager().getViewMetrics();
+    const scrollX = workspace.scrollX;
+    const scrollY = workspace.scrollY;
+    workspace.scroll(
+      scrollX - xDirection * metrics.width * PAN_FRACTION,
+      scrollY - yDirection * metrics.height * PAN_FRACTION,
+    );
+    if (workspace.scrollX === scrollX && workspace.scrollY === scrollY) {
+      this.announcer.announce('Reached the edge of the workspace');
+    }
+    return true;
+  }
+
+  /**
+   * Zooms in or out by one step, keeping the cursor where it is on screen.
+   *
+   * @param workspace The workspace to zoom.
+   * @param amount How many steps to zoom in, or out if negative.
+   * @returns True if the zoom was changed.
+   */
+  zoom(workspace: WorkspaceSvg, amount: number) {
+    const center = this.getCursorCenter(workspace);
+    if (center) {
+      workspace.zoom(center.x, center.y, amount);
+    } else {
+      workspace.zoomCenter(amount);
+    }
+    this.announceZoom(workspace);
+    return true;
+  }
+
+  /**
+   * Returns to the workspace's starting zoom level, keeping the cursor where
+   * it is on screen.
+   *
+   * @param workspace The workspace to zoom.
+   * @returns True if the zoom was changed.
+   */
+  resetZoom(workspace: WorkspaceSvg) {
+    const {startScale, scaleSpeed} = workspace.options.zoomOptions;
+    // zoom takes a number of steps, which needn't be a whole number.
+    const amount =
+      Math.log(startScale / workspace.getScale()) / Math.log(scaleSpeed);
+    return this.zoom(workspace, amount);
+  }
+
+  /**
+   * Zooms so that the stack the cursor is in fills the view, and centres it.
+   *
+   * @param workspace The workspace to zoom.
+   * @returns True if the view was changed.
+   */
+  zoomToStack(workspace: WorkspaceSvg) {
+    const root = workspace.getCursor().getSourceBlock()?.getRootBlock();
+    if (!root) return false;
+    const bounds = root.getBoundingRectangle();
+    const metrics = workspace.getMetricsManager().getViewMetrics();
+    const scale = Math.min(
+      (metrics.width - 2 * ZOOM_TO_STACK_PADDING) / bounds.getWidth(),
+      (metrics.height - 2 * ZOOM_TO_STACK_PADDING) / bounds.getHeight(),
+    );
+    // setScale limits this to the workspace's zoom range.
+    workspace.setScale(scale);
+    workspace.centerOnBlock(root.id);
+    this.announceZoom(workspace);
+    return true;
+  }
+
+  /**
+   * Returns whether the view can be panned.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns True if the workspace can be scrolled.
+   */
+  private canPan(workspace: WorkspaceSvg): boolean {
+    return (
+      !workspace.isFlyout &&
+      !workspace.isDragging() &&
+      workspace.isMovable() &&
+      this.navigation.canCurrentlyNavigate(workspace)
+    );
+  }
+
+  /**
+   * Returns whether the view can be zoomed.
+   *
+   * @param workspace The workspace the shortcut was used on.
+   * @returns True if the workspace can be zoomed.
+   */
+  private canZoom(workspace: WorkspaceSvg): boolean {
+    const {minScale, maxScale} = workspace.options.zoomOptions;
+    return (
+      !workspace.isFlyout &&
+      !workspace.isDragging() &&
+      minScale !== maxScale &&
+      this.navigation.canCurrentlyNavigate(workspace)
+    );
+  }
+
+  /**
+   * Returns the point to zoom around: the middle of the block or workspace
+   * cursor.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @returns The point in the coordinates of the workspace's SVG, or null if
+   *     the cursor isn't on anything.
+   */
+  private getCursorCenter(workspace: WorkspaceSvg): utils.Coordinate | null {
+    let location = this.navigation.getWorkspaceCursorLocation(workspace);
+    const block = workspace.getCursor().getSourceBlock();
+    if (!location && block) {
+      const bounds = block.getBoundingRectangleWithoutChildren();
+      location = new utils.Coordinate(
+        (bounds.left + bounds.right) / 2,
+        (bounds.top + bounds.bottom) / 2,
+      );
+    }
+    const matrix = workspace.getCanvas().getCTM();
+    if (!location || !matrix) return null;
+    const point = workspace.getParentSvg().createSVGPoint();
+    point.x = location.x;
+    point.y = location.y;
+    const center = point.matrixTransform(matrix);
+    return new utils.Coordinate(center.x, center.y);
+  }
+
+  /**
+   * Announces the zoom level.
+   *
+   * @param workspace The workspace that was zoomed.
+   */
+  private announceZoom(workspace: WorkspaceSvg) {
+    this.announcer.announce(
+      `Zoom ${Math.round(workspace.getScale() * 100)} percent`,
+    );
+  }
+}
@@ -12,8 +12,22 @@ import {
 import * as Constants from '../constants';
 import type {WorkspaceSvg} from 'blockly';
 import {Navigation} from '../navigation';
+import type {Announcer} from '../announcer';
 
 const KeyCodes = BlocklyUtils.KeyCodes;
+
+/**
+ * The distance to move the workspace cursor, in workspace coordinates, when
+ * the workspace has no grid.
+ */
+const WS_CURSOR_MOVE_DISTANCE = 20;
+
+/**
+ * Distance from the top left of the viewport at which the workspace cursor
+ * is first placed.
+ */
+const WS_CURSOR_INITIAL_PADDING = 20;
+
 const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
   ShortcutRegistry.registry,
 );
@@ -23,7 +37,10 @@ const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
  * shortcuts.
  */
 export class WorkspaceMovement {
-  constructor(private navigation: Navigation) {}
+  constructor(
+    private navigation: Navigation,
+    private announcer: Announcer,
+  ) {}
 
   private shortcuts: ShortcutRegistry.KeyboardShortcut[] = [
     /** Move the cursor on the workspace to the left. */
@@ -110,7 +127,27 @@ export class WorkspaceMovement {
     xDirection: number,
     yDirection: number,
   ): boolean {
-    return false;
+    if (workspace.getCursor().getCurNode() !== workspace) return false;
+    const indicator = this.navigation.getWorkspaceCursorIndicator(workspace);
+    if (!indicator) return false;
+    keyboardNavigationController.setIsActive(true);
+
+    indicator.placeInViewIfNeeded(WS_CURSOR_INITIAL_PADDING);
+    const location = indicator.getLocation();
+    if (!location) return false;
+    const grid = workspace.getGrid();
+    const distance = grid?.getSpacing() || WS_CURSOR_MOVE_DISTANCE;
+    indicator.moveTo(
+      location.x + xDirection * distance,
+      location.y + yDirection * distance,
+    );
+
+    const bounds = indicator.getBoundingRectangle();
+    if (bounds) {
+      workspace.scrollBoundsIntoView(bounds);
+    }
+    this.announceLocation(indicator.getLocation());
+    return true;
   }
 
   /**
@@ -120,6 +157,21 @@ export class WorkspaceMovement {
    */
   createWSCursor(workspace: WorkspaceSvg) {
     workspace.getCursor().setCurNode(workspace);
+    const indicator = this.navigation.getWorkspaceCursorIndicator(workspace);
+    indicator?.placeInViewIfNeeded(WS_CURSOR_INITIAL_PADDING);
+    this.announceLocation(indicator?.getLocation() ?? null);
     return true;
   }
+
+  /**
+   * Announces the location of the workspace cursor.
+   *
+   * @param location The location in workspace coordinates.
+   */
+  private announceLocation(location: BlocklyUtils.Coordinate | null) {
+    if (!location) return;
+    this.announcer.announce(
+      `Workspace cursor at x ${Math.round(location.x)}, y ${Math.round(location.y)}`,
+    );
+  }
 }
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly/core';
+import {BlockDescriber} from './block_describer';
+
+/**
+ * How urgently a message should be read out by assistive technology.
+ *
+ * Polite messages wait until the screen reader is idle; assertive messages
+ * interrupt whatever is currently being read.
+ */
+export type AnnouncementPriority = 'polite' | 'assertive';
+
+/**
+ * Delay before writing a message to a live region, in milliseconds.
+ *
+ * Clearing the region and writing the message in a later task ensures that
+ * repeating the same message is still read out.
+ */
+const ANNOUNCEMENT_DELAY = 50;
+
+/**
+ * Service that speaks the results of keyboard actions to screen reader users
+ * by writing to offscreen ARIA live regions.
+ */
+export class Announcer {
+  /** Live region for messages that should not interrupt. */
+  private politeRegion: HTMLElement;
+
+  /** Live region for messages that should interrupt. */
+  private assertiveRegion: HTMLElement;
+
+  /** Pending timeouts for messages that have not been written yet. */
+  private pendingAnnouncements: Map<
+    HTMLElement,
+    ReturnType<typeof setTimeout>
+  > = new Map();
+
+  /** The most recent message, for testing and debugging. */
+  private lastAnnouncement = '';
+
+  /**
+   * Constructs the announcer and adds its live regions to the page.
+   *
+   * @param container The element to add the live regions to.
+   * @param describer Used to turn nodes into spoken descriptions.
+   */
+  constructor(
+    container: HTMLElement = document.body,
+    private describer: BlockDescriber = new BlockDescriber(),
+  ) {
+    this.politeRegion = this.createRegion(container, 'polite');
+    this.assertiveRegion = this.createRegion(container, 'assertive');
+  }
+
+  /**
+   * Creates an offscreen live region.
+   *
+   * @param container The element to add the region to.
+   * @param priority The politeness level of the region.
+   * @returns The live region element.
+   */
+  private createRegion(
+    container: HTMLElement,
+    priority: AnnouncementPriority,
+  ): HTMLElement {
+    const region = document.createElement('div');
+    region.className = 'blocklyAriaLiveRegion';
+    region.setAttribute('aria-live', priority);
+    region.setAttribute('aria-atomic', 'true');
+    region.setAttribute('role', priority === 'assertive' ? 'alert' : 'status');
+    container.appendChild(region);
+    return region;
+  }
+
+  /**
+   * Speaks a message.
+   *
+   * @param message The text to read out.
+   * @param priority How urgently the message should be read out.
+   */
+  announce(message: string, priority: AnnouncementPriority = 'polite') {
+    if (!message) return;
+    const region =
+      priority === 'assertive' ? this.assertiveRegion : this.politeRegion;
+    clearTimeout(this.pendingAnnouncements.get(region));
+    region.textContent = '';
+    this.lastAnnouncement = message;
+    this.pendingAnnouncements.set(
+      region,
+      setTimeout(() => {
+        region.textContent = message;
+        this.pendingAnnouncements.delete(region);
+      }, ANNOUNCEMENT_DELAY),
+    );
+  }
+
+  /**
+   * Speaks a description of a node, typically after the cursor moves to it.
+   *
+   * @param node The node to describe, or null to do nothing.
+   * @param prefix Optional text to read before the description.
+   */
+  announceNode(node: Blockly.IFocusableNode | null, prefix = '') {
+    if (!node) return;
+    const description = this.describer.describe(node);
+    this.announce(prefix ? `${prefix} ${description}` : description);
+  }
+
+  /**
+   * Returns the describer used to turn nodes into spoken descriptions.
+   *
+   * @returns The describer.
+   */
+  getDescriber(): BlockDescriber {
+    return this.describer;
+  }
+
+  /**
+   * Speaks a description of the node that currently has focus.
+   *
+   * @param prefix Optional text to read before the description.
+   */
+  announceFocusedNode(prefix = '') {
+    this.announceNode(Blockly.getFocusManager().getFocusedNode(), prefix);
+  }
+
+  /**
+   * Returns the most recently announced message.
+   *
+   * @returns The message text.
+   */
+  getLastAnnouncement(): string {
+    return this.lastAnnouncement;
+  }
+
+  /**
+   * Removes the live regions from the page.
+   */
+  dispose() {
+    for (const timeout of this.pendingAnnouncements.values()) {
+      clearTimeout(timeout);
+    }
+    this.pendingAnnouncements.clear();
+    this.politeRegion.remove();
+    this.assertiveRegion.remove();
+  }
+}
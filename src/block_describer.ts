@@ -0,0 +1,289 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly/core';
+
+/**
+ * Function that returns the wording used for a particular type of block, e.g.
+ * "400 by 400 canvas" rather than the generic "create canvas with width 400
+ * height 400".
+ *
+ * Overrides replace only the name of the block. Its position in the
+ * program, empty inputs and so on are still described by the BlockDescriber.
+ */
+export type BlockLabelFn = (block: Blockly.BlockSvg) => string;
+
+/**
+ * Turns focusable nodes into short spoken descriptions for screen reader
+ * users, such as "repeat 10 times block, inside 'when clicked', statement 2 of
+ * 4, has 1 empty input".
+ *
+ * Default descriptions are provided for blocks, fields, connections, icons and
+ * workspace comments. Applications can register per-block-type overrides for
+ * wording that a generic description can't produce.
+ */
+export class BlockDescriber {
+  /** Block label overrides, keyed by block type. */
+  private blockLabels: Map<string, BlockLabelFn> = new Map();
+
+  /**
+   * Registers an override for the wording of a type of block.
+   *
+   * @param type The block type, e.g. 'controls_repeat_ext'.
+   * @param labelFn Function returning the wording for a block of that type.
+   */
+  registerBlockType(type: string, labelFn: BlockLabelFn) {
+    if (this.blockLabels.has(type)) {
+      throw new Error(`Block describer for "${type}" is already registered.`);
+    }
+    this.blockLabels.set(type, labelFn);
+  }
+
+  /**
+   * Removes the override for the wording of a type of block.
+   *
+   * @param type The block type.
+   */
+  unregisterBlockType(type: string) {
+    this.blockLabels.delete(type);
+  }
+
+  /**
+   * Creates a spoken description of a focusable node.
+   *
+   * @param node The node to describe.
+   * @returns The description, or an empty string if the node is of a type
+   *     that cannot be described.
+   */
+  describe(node: Blockly.IFocusableNode): string {
+    if (node instanceof Blockly.BlockSvg) {
+      return this.describeBlock(node);
+    } else if (node instanceof Blockly.Field) {
+      return this.describeField(node);
+    } else if (node instanceof Blockly.RenderedConnection) {
+      return this.describeConnection(node);
+    } else if (node instanceof Blockly.icons.Icon) {
+      return this.describeIcon(node);
+    } else if (node instanceof Blockly.comments.RenderedWorkspaceComment) {
+      return this.describeWorkspaceComment(node);
+    } else if (node instanceof Blockly.WorkspaceSvg) {
+      return node.isFlyout ? 'flyout' : 'workspace';
+    } else if (node instanceof Blockly.FlyoutButton) {
+      return `${node.getButtonText()} button`;
+    } else if (node instanceof Blockly.ToolboxCategory) {
+      return `${node.getName()} category`;
+    }
+    return '';
+  }
+
+  /**
+   * Returns the short name of a block, using the override registered for its
+   * type if there is one.
+   *
+   * @param block The block to name.
+   * @returns The name, without any position information.
+   */
+  getBlockLabel(block: Blockly.BlockSvg): string {
+    const labelFn = this.blockLabels.get(block.type);
+    return labelFn ? labelFn(block) : block.toString();
+  }
+
+  /**
+   * Creates a description of a block, including where it is in the program.
+   *
+   * @param block The block to describe.
+   * @returns The description.
+   */
+  describeBlock(block: Blockly.BlockSvg): string {
+    const parts = [`${this.getBlockLabel(block)} block`];
+
+    const parent = block.getSurroundParent();
+    if (parent) {
+      parts.push(`inside '${this.getBlockLabel(parent)}'`);
+    }
+
+    const statements = getStatementList(block);
+    if (statements.length > 1) {
+      const index = statements.indexOf(block) + 1;
+      parts.push(`statement ${index} of ${statements.length}`);
+    }
+
+    const emptyInputs = block.inputList.filter(
+      (input) =>
+        input.isVisible() &&
+        input.connection &&
+        !input.connection.targetBlock(),
+    ).length;
+    if (emptyInputs) {
+      parts.push(
+        `has ${emptyInputs} empty input${emptyInputs === 1 ? '' : 's'}`,
+      );
+    }
+
+    if (!block.isEnabled()) parts.push('disabled');
+    if (block.isCollapsed()) parts.push('collapsed');
+    return parts.join(', ');
+  }
+
+  /**
+   * Creates a description of a field.
+   *
+   * @param field The field to describe.
+   * @returns The description.
+   */
+  describeField(field: Blockly.Field): string {
+    const text = field.getText() || 'empty';
+    const block = field.getSourceBlock();
+    if (!(block instanceof Blockly.BlockSvg)) return `${text} field`;
+    return `${text} field, in '${this.getBlockLabel(block)}'`;
+  }
+
+  /**
+   * Creates a description of a connection, in terms of where a block
+   * attached there would go.
+   *
+   * @param connection The connection to describe.
+   * @returns The description.
+   */
+  describeConnection(connection: Blockly.RenderedConnection): string {
+    const label = `'${this.getBlockLabel(connection.getSourceBlock())}'`;
+    const input = connection.getParentInput();
+    switch (connection.type) {
+      case Blockly.ConnectionType.PREVIOUS_STATEMENT:
+        return `before ${label}`;
+      case Blockly.ConnectionType.NEXT_STATEMENT:
+        return input
+          ? `inside ${label}, ${input.name} input`
+          : `after ${label}`;
+      case Blockly.ConnectionType.INPUT_VALUE:
+        return `${input?.name || 'value'} input of ${label}`;
+      case Blockly.ConnectionType.OUTPUT_VALUE:
+        return `output of ${label}`;
+    }
+    return '';
+  }
+
+  /**
+   * Creates a description of a place a block being moved could connect,
+   * including which stack it is in, e.g. "inside 'if' do-branch of stack 2".
+   *
+   * @param connection The connection the block would connect to.
+   * @param movingBlock The block being moved, which is not counted as a
+   *     stack.
+   * @returns The description.
+   */
+  describeMoveTarget(
+    connection: Blockly.RenderedConnection,
+    movingBlock: Blockly.BlockSvg,
+  ): string {
+    const block = connection.getSourceBlock();
+    const label = `'${this.getBlockLabel(block)}'`;
+    const input = connection.getParentInput();
+    let place = '';
+    switch (connection.type) {
+      case Blockly.ConnectionType.PREVIOUS_STATEMENT:
+        place = `before ${label}`;
+        break;
+      case Blockly.ConnectionType.NEXT_STATEMENT:
+        place = input
+          ? `inside ${label} ${getInputName(input)}-branch`
+          : `after ${label}`;
+        break;
+      case Blockly.ConnectionType.INPUT_VALUE:
+        place = `in ${label} ${input ? getInputName(input) : 'value'} input`;
+        break;
+      case Blockly.ConnectionType.OUTPUT_VALUE:
+        place = `around ${label}`;
+        break;
+    }
+    const movingRoot = movingBlock.getRootBlock();
+    const stacks = block.workspace
+      .getTopBlocks(true)
+      .filter((topBlock) => topBlock !== movingRoot);
+    const stack = stacks.indexOf(block.getRootBlock()) + 1;
+    return stack ? `${place} of stack ${stack}` : place;
+  }
+
+  /**
+   * Creates a description of a block icon.
+   *
+   * @param icon The icon to describe.
+   * @returns The description.
+   */
+  describeIcon(icon: Blockly.icons.Icon): string {
+    const type = icon.getType();
+    let name = `${type}`;
+    if (type.equals(Blockly.icons.IconType.COMMENT)) name = 'comment';
+    if (type.equals(Blockly.icons.IconType.MUTATOR)) name = 'mutator';
+    if (type.equals(Blockly.icons.IconType.WARNING)) name = 'warning';
+    const parts = [`${name} icon`];
+    if (Blockly.hasBubble(icon)) {
+      parts.push(icon.bubbleIsVisible() ? 'open' : 'closed');
+    }
+    const block = icon.getSourceBlock();
+    if (block instanceof Blockly.BlockSvg) {
+      parts.push(`on '${this.getBlockLabel(block)}'`);
+    }
+    return parts.join(', ');
+  }
+
+  /**
+   * Creates a description of a workspace comment.
+   *
+   * @param comment The comment to describe.
+   * @returns The description.
+   */
+  describeWorkspaceComment(
+    comment: Blockly.comments.RenderedWorkspaceComment,
+  ): string {
+    const parts = ['workspace comment', comment.getText() || 'empty'];
+    if (comment.isCollapsed()) parts.push('collapsed');
+    return parts.join(', ');
+  }
+}
+
+/**
+ * Returns the list of statements that a block belongs to, i.e. the blocks
+ * joined to it by next connections, in order.
+ *
+ * @param block A block in the list.
+ * @returns The blocks in the list, or an empty list if the block is not a
+ *     statement block.
+ */
+function getStatementList(block: Blockly.BlockSvg): Blockly.BlockSvg[] {
+  if (!block.previousConnection && !block.nextConnection) return [];
+  let first = block;
+  let previous = first.getPreviousBlock();
+  while (previous && previous.getNextBlock() === first) {
+    first = previous;
+    previous = first.getPreviousBlock();
+  }
+  const statements: Blockly.BlockSvg[] = [];
+  for (
+    let current: Blockly.BlockSvg | null = first;
+    current;
+    current = current.getNextBlock()
+  ) {
+    statements.push(current);
+  }
+  return statements;
+}
+
+/**
+ * Returns a short name for an input, from the text of its fields if it has
+ * any, e.g. "do" for the statement input of a loop.
+ *
+ * @param input The input to name.
+ * @returns The name.
+ */
+export function getInputName(input: Blockly.Input): string {
+  const text = input.fieldRow
+    .filter((field) => field.isVisible())
+    .map((field) => field.getText())
+    .join(' ')
+    .trim();
+  return text || input.name.toLowerCase();
+}
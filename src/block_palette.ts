@@ -0,0 +1,292 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly/core';
+import type {Announcer} from './announcer';
+
+/**
+ * Maximum number of matching blocks listed in the palette at once.
+ */
+const MAX_RESULTS = 20;
+
+/**
+ * A block that can be chosen from the palette.
+ */
+export interface PaletteItem {
+  /** The serialized block to create when this item is chosen. */
+  state: Blockly.serialization.blocks.State;
+  /** The block's type. */
+  type: string;
+  /** The block's visible text. */
+  label: string;
+  /** The block's tooltip. */
+  tooltip: string;
+  /** The name of the toolbox category the block was found in, if any. */
+  category: string;
+}
+
+/**
+ * Popup with a text input for searching blocks by type, visible text and
+ * tooltip, and a list of the best matches.
+ */
+export class BlockPalette {
+  /** All blocks that can be chosen. */
+  private items: PaletteItem[] = [];
+
+  /** Blocks matching the current query, best match first. */
+  private results: PaletteItem[] = [];
+
+  /** Index into results of the highlighted block. */
+  private activeIndex = 0;
+
+  /** The search input, while the palette is open. */
+  private input: HTMLInputElement | null = null;
+
+  /** The list of results, while the palette is open. */
+  private list: HTMLElement | null = null;
+
+  /** Called with the chosen block, while the palette is open. */
+  private onChoose: ((item: PaletteItem) => void) | null = null;
+
+  constructor(private announcer: Announcer) {}
+
+  /**
+   * Shows the palette over the given workspace.
+   *
+   * @param workspace The workspace blocks will be inserted into.
+   * @param items The blocks that can be chosen.
+   * @param onChoose Called with the chosen block after the palette closes.
+   */
+  show(
+    workspace: Blockly.WorkspaceSvg,
+    items: PaletteItem[],
+    onChoose: (item: PaletteItem) => void,
+  ) {
+    this.items = items;
+    this.onChoose = onChoose;
+    Blockly.WidgetDiv.show(
+      this,
+      workspace.RTL,
+      () => this.dispose(),
+      workspace,
+    );
+    const div = Blockly.WidgetDiv.getDiv();
+    if (!div) return;
+
+    const container = document.createElement('div');
+    container.className = 'blocklyBlockPalette';
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'blocklyBlockPaletteInput';
+    input.setAttribute('role', 'combobox');
+    input.setAttribute('aria-expanded', 'true');
+    input.setAttribute('aria-autocomplete', 'list');
+    input.setAttribute('aria-label', 'Search for a block to insert');
+    input.placeholder = 'Search blocks';
+    input.addEventListener('input', () => this.update());
+    input.addEventListener('keydown', (e) => this.onKeyDown(e));
+    container.appendChild(input);
+
+    const list = document.createElement('ul');
+    list.className = 'blocklyBlockPaletteList';
+    list.id = Blockly.utils.idGenerator.getNextUniqueId();
+    list.setAttribute('role', 'listbox');
+    input.setAttribute('aria-controls', list.id);
+    container.appendChild(list);
+
+    div.appendChild(container);
+    this.input = input;
+    this.list = list;
+
+    const bounds = workspace.getInjectionDiv().getBoundingClientRect();
+    const left = workspace.RTL
+      ? bounds.right - container.offsetWidth
+      : bounds.left;
+    div.style.left = `${left + window.scrollX}px`;
+    div.style.top = `${bounds.top + window.scrollY}px`;
+
+    this.update();
+    input.focus();
+    this.announcer.announce(
+      `Insert block, ${items.length} blocks available. Type to search.`,
+    );
+  }
+
+  /**
+   * Closes the palette without choosing a block.
+   */
+  hide() {
+    Blockly.WidgetDiv.hideIfOwner(this);
+  }
+
+  /**
+   * Forgets the palette's state. Called by the widget div when it is hidden,
+   * which also removes the palette's DOM.
+   */
+  private dispose() {
+    this.input = null;
+    this.list = null;
+    this.items = [];
+    this.results = [];
+    this.onChoose = null;
+  }
+
+  /**
+   * Handles keys pressed in the search input.
+   *
+   * @param e The keyboard event.
+   */
+  private onKeyDown(e: KeyboardEvent) {
+    switch (e.key) {
+      case 'ArrowDown':
+        this.setActiveIndex(this.activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        this.setActiveIndex(this.activeIndex - 1);
+        break;
+      case 'Enter':
+        this.choose(this.results[this.activeIndex]);
+        break;
+      case 'Escape':
+        this.hide();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  }
+
+  /**
+   * Closes the palette and inserts the given block.
+   *
+   * @param item The chosen block, or undefined if there are no results.
+   */
+  private choose(item: PaletteItem | undefined) {
+    if (!item) {
+      this.announcer.announce('No matching blocks', 'assertive');
+      return;
+    }
+    const onChoose = this.onChoose;
+    this.hide();
+    onChoose?.(item);
+  }
+
+  /**
+   * Filters the list of blocks to those matching the current query.
+   */
+  private update() {
+    if (!this.input || !this.list) return;
+    const query = this.input.value.trim();
+    this.results = this.items
+      .map((item, index) => ({item, index, score: scoreItem(query, item)}))
+      .filter(({score}) => score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, MAX_RESULTS)
+      .map(({item}) => item);
+
+    this.list.replaceChildren(
+      ...this.results.map((item, index) => {
+        const option = document.createElement('li');
+        option.id = `${this.list?.id}-${index}`;
+        option.className = 'blocklyBlockPaletteOption';
+        option.setAttribute('role', 'option');
+        option.textContent = item.category
+          ? `${item.label} (${item.category})`
+          : item.label;
+        option.addEventListener('pointerdown', (e) => {
+          e.preventDefault();
+          this.choose(item);
+        });
+        return option;
+      }),
+    );
+    this.setActiveIndex(0);
+    if (query) {
+      this.announcer.announce(
+        this.results.length
+          ? `${this.results.length} results, ${this.results[0].label}`
+          : 'No matching blocks',
+      );
+    }
+  }
+
+  /**
+   * Highlights one of the results.
+   *
+   * @param index The index of the result to highlight. Wraps around.
+   */
+  private setActiveIndex(index: number) {
+    if (!this.input || !this.list) return;
+    const count = this.results.length;
+    this.activeIndex = count ? (index + count) % count : 0;
+    const options = Array.from(this.list.children);
+    options.forEach((option, i) => {
+      const active = i === this.activeIndex;
+      option.setAttribute('aria-selected', `${active}`);
+      option.classList.toggle('blocklyBlockPaletteOptionActive', active);
+    });
+    const activeOption = options[this.activeIndex];
+    if (activeOption) {
+      this.input.setAttribute('aria-activedescendant', activeOption.id);
+      activeOption.scrollIntoView({block: 'nearest'});
+    } else {
+      this.input.removeAttribute('aria-activedescendant');
+    }
+  }
+}
+
+/**
+ * Scores how well a block matches a search query. The block's visible text
+ * counts for more than its type, which counts for more than its tooltip and
+ * category.
+ *
+ * @param query The search query.
+ * @param item The block to score.
+ * @returns The score, or 0 if the block does not match.
+ */
+function scoreItem(query: string, item: PaletteItem): number {
+  if (!query) return 1;
+  return Math.max(
+    fuzzyScore(query, item.label) * 3,
+    fuzzyScore(query, item.type) * 2,
+    fuzzyScore(query, item.tooltip),
+    fuzzyScore(query, item.category),
+  );
+}
+
+/**
+ * Scores how well some text matches a search query. The characters of the
+ * query must appear in order in the text; exact substrings, matches at the
+ * start of a word and runs of consecutive characters score higher.
+ *
+ * @param query The search query.
+ * @param text The text to search.
+ * @returns The score, or 0 if the text does not match.
+ */
+function fuzzyScore(query: string, text: string): number {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex !== -1) {
+    const atWordStart =
+      substringIndex === 0 || /[\s_]/.test(haystack[substringIndex - 1]);
+    return needle.length * 10 + (atWordStart ? 50 : 0);
+  }
+
+  let score = 0;
+  let run = 0;
+  let position = 0;
+  for (const char of needle.replace(/\s+/g, '')) {
+    const found = haystack.indexOf(char, position);
+    if (found === -1) return 0;
+    run = found === position ? run + 1 : 0;
+    score += 1 + run;
+    position = found + 1;
+  }
+  return score;
+}
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly/core';
+
+/**
+ * Returns the fields on a block whose text contains the query, ignoring case.
+ *
+ * @param block The block to search.
+ * @param query The text to search for.
+ * @returns The matching fields, in order.
+ */
+export function getMatchingFields(
+  block: Blockly.Block,
+  query: string,
+): Blockly.Field[] {
+  const needle = query.toLowerCase();
+  const fields: Blockly.Field[] = [];
+  for (const input of block.inputList) {
+    for (const field of input.fieldRow) {
+      if (field.getText().toLowerCase().includes(needle)) {
+        fields.push(field);
+      }
+    }
+  }
+  return fields;
+}
+
+/**
+ * Returns whether a block's type, field text or comment text contains the
+ * query, ignoring case.
+ *
+ * @param block The block to search.
+ * @param query The text to search for.
+ * @returns True if the block matches.
+ */
+export function blockMatches(block: Blockly.Block, query: string): boolean {
+  const needle = query.toLowerCase();
+  return (
+    block.type.toLowerCase().includes(needle) ||
+    !!block.getCommentText()?.toLowerCase().includes(needle) ||
+    getMatchingFields(block, query).length > 0
+  );
+}
+
+/**
+ * Finds the blocks on a workspace that match a query.
+ *
+ * Matches inside shadow blocks are reported as their parent block, and
+ * matches hidden inside collapsed blocks are reported as the outermost
+ * collapsed block, since those are the blocks the cursor can move to.
+ *
+ * @param workspace The workspace to search.
+ * @param query The text to search for.
+ * @returns The matching blocks, in workspace order, without duplicates.
+ */
+export function findMatchingBlocks(
+  workspace: Blockly.WorkspaceSvg,
+  query: string,
+): Blockly.BlockSvg[] {
+  if (!query) return [];
+  return findBlocks(workspace, (block) => blockMatches(block, query));
+}
+
+/**
+ * Finds the blocks on a workspace that satisfy a condition, in the order
+ * the cursor visits them.
+ *
+ * Blocks are reported in the same way as by findMatchingBlocks.
+ *
+ * @param workspace The workspace to search.
+ * @param predicate Returns true for the blocks to find.
+ * @returns The blocks the cursor can move to, without duplicates.
+ */
+export function findBlocks(
+  workspace: Blockly.WorkspaceSvg,
+  predicate: (block: Blockly.BlockSvg) => boolean,
+): Blockly.BlockSvg[] {
+  const matches = new Set<Blockly.BlockSvg>();
+  for (const topBlock of workspace.getTopBlocks(true)) {
+    for (const block of topBlock.getDescendants(true)) {
+      if (!predicate(block)) continue;
+      const target = getNavigableBlock(block);
+      if (target) matches.add(target);
+    }
+  }
+  return [...matches];
+}
+
+/**
+ * Returns the block the cursor should move to in order to show the given
+ * block.
+ *
+ * @param block The block to show.
+ * @returns The block itself, its nearest non-shadow ancestor if it is a
+ *     shadow, or its outermost collapsed ancestor if it is hidden.
+ */
+export function getNavigableBlock(
+  block: Blockly.BlockSvg,
+): Blockly.BlockSvg | null {
+  let target: Blockly.BlockSvg | null = block;
+  while (target?.isShadow()) {
+    target = target.getParent();
+  }
+  for (let parent = target?.getParent(); parent; parent = parent.getParent()) {
+    if (parent.isCollapsed()) target = parent;
+  }
+  return target;
+}
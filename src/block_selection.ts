@@ -0,0 +1,312 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  Events,
+  WorkspaceSvg,
+  clipboard,
+  common,
+  serialization,
+  utils,
+} from 'blockly/core';
+import {findBlocks} from './block_search';
+
+/** The CSS class added to blocks that are in a selection. */
+const SELECTED_CLASS = 'blocklyMultiSelected';
+
+/**
+ * The blocks selected on one workspace.
+ */
+interface Selection {
+  /** The selected blocks, in the order they were selected. */
+  blocks: Set<BlockSvg>;
+  /** The block that ranges are extended from. */
+  anchor: BlockSvg | null;
+}
+
+/**
+ * A set of statement blocks that actions such as delete, copy and move apply
+ * to together.
+ *
+ * Blocks are added either as a range of sibling statements, extended from an
+ * anchor block, or one at a time. Each workspace has its own selection, and
+ * selected blocks are marked with a CSS class.
+ */
+export class BlockSelection {
+  private selections: Map<WorkspaceSvg, Selection> = new Map();
+
+  /**
+   * Returns whether a block can be selected.
+   *
+   * @param block The block to check.
+   * @returns True if the block is a statement block on a workspace.
+   */
+  canSelect(block: BlockSvg): boolean {
+    return !!block.previousConnection && !block.isInFlyout && !block.isShadow();
+  }
+
+  /**
+   * Adds a block to the selection, or removes it if it is already selected.
+   * The block becomes the anchor for ranges.
+   *
+   * @param block The block to toggle.
+   * @returns True if the block is now selected.
+   */
+  toggle(block: BlockSvg): boolean {
+    const selection = this.getSelection(block.workspace);
+    selection.anchor = block;
+    if (selection.blocks.delete(block)) {
+      block.removeClass(SELECTED_CLASS);
+      return false;
+    }
+    selection.blocks.add(block);
+    block.addClass(SELECTED_CLASS);
+    return true;
+  }
+
+  /**
+   * Selects the sibling statements between the anchor and a block, replacing
+   * the rest of the selection.
+   *
+   * If there is no anchor, or it isn't in the same statement list as the
+   * block, the range starts from the given start block instead.
+   *
+   * @param start The block to use as the anchor if the current one can't be.
+   * @param end The block to extend the range to.
+   */
+  selectRange(start: BlockSvg, end: BlockSvg) {
+    const selection = this.getSelection(end.workspace);
+    const anchor =
+      selection.anchor && getSiblingRange(selection.anchor, end)
+        ? selection.anchor
+        : start;
+    const range = getSiblingRange(anchor, end) ?? [end];
+    for (const block of selection.blocks) {
+      block.removeClass(SELECTED_CLASS);
+    }
+    selection.blocks.clear();
+    selection.anchor = anchor;
+    for (const block of range) {
+      selection.blocks.add(block);
+      block.addClass(SELECTED_CLASS);
+    }
+  }
+
+  /**
+   * Returns whether a block is selected.
+   *
+   * @param block The block to check.
+   * @returns True if it is selected.
+   */
+  isSelected(block: BlockSvg): boolean {
+    return !!this.selections.get(block.workspace)?.blocks.has(block);
+  }
+
+  /**
+   * Returns the selected blocks on a workspace.
+   *
+   * Blocks that have been deleted, or that are inside another selected block,
+   * are left out.
+   *
+   * @param workspace The workspace to get the selection of.
+   * @returns The selected blocks, in workspace order.
+   */
+  getBlocks(workspace: WorkspaceSvg): BlockSvg[] {
+    const blocks = this.selections.get(workspace)?.blocks;
+    if (!blocks?.size) return [];
+    return findBlocks(workspace, (block) => {
+      if (!blocks.has(block)) return false;
+      for (
+        let parent = block.getSurroundParent();
+        parent;
+        parent = parent.getSurroundParent()
+      ) {
+        if (blocks.has(parent)) return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Returns the blocks that an action on a block should apply to.
+   *
+   * @param block The block the action was used on.
+   * @returns The selected blocks if the block is selected, or else just the
+   *     block.
+   */
+  getTargets(block: BlockSvg): BlockSvg[] {
+    if (!this.isSelected(block)) return [block];
+    const blocks = this.getBlocks(block.workspace);
+    return blocks.length ? blocks : [block];
+  }
+
+  /**
+   * Deselects all the blocks on a workspace.
+   *
+   * @param workspace The workspace to clear the selection of.
+   */
+  clear(workspace: WorkspaceSvg) {
+    const selection = this.selections.get(workspace);
+    if (!selection) return;
+    for (const block of selection.blocks) {
+      block.removeClass(SELECTED_CLASS);
+    }
+    this.selections.delete(workspace);
+  }
+
+  /**
+   * Returns the selection for a workspace, creating it if necessary.
+   *
+   * @param workspace The workspace to get the selection of.
+   * @returns The selection.
+   */
+  private getSelection(workspace: WorkspaceSvg): Selection {
+    let selection = this.selections.get(workspace);
+    if (!selection) {
+      selection = {blocks: new Set(), anchor: null};
+      this.selections.set(workspace, selection);
+    }
+    return selection;
+  }
+}
+
+/**
+ * Returns whether blocks can be joined into a single stack, in order.
+ *
+ * @param blocks The blocks to check.
+ * @returns True if every block has a previous connection and every block but
+ *     the last has a next connection.
+ */
+export function canChain(blocks: BlockSvg[]): boolean {
+  return blocks.every(
+    (block, i) =>
+      !!block.previousConnection &&
+      (i === blocks.length - 1 || !!block.nextConnection),
+  );
+}
+
+/**
+ * Creates copy data that pastes blocks as a single stack, in order.
+ *
+ * @param blocks The blocks to copy. They must pass canChain.
+ * @returns The copy data, or null if a block couldn't be saved.
+ */
+export function chainCopyData(
+  blocks: BlockSvg[],
+): clipboard.BlockCopyData | null {
+  const states: serialization.blocks.State[] = [];
+  const typeCounts: {[key: string]: number} = {};
+  for (const block of blocks) {
+    const state = serialization.blocks.save(block, {addNextBlocks: false});
+    if (!state) return null;
+    states.push(state);
+    for (const [type, count] of Object.entries(
+      common.getBlockTypeCounts(block, true),
+    )) {
+      typeCounts[type] = (typeCounts[type] ?? 0) + count;
+    }
+  }
+  for (let i = states.length - 1; i > 0; i--) {
+    states[i - 1].next = {block: states[i]};
+  }
+  const {x, y} = blocks[0].getRelativeToSurfaceXY();
+  return {
+    paster: clipboard.BlockPaster.TYPE,
+    blockState: {...states[0], x, y},
+    typeCounts,
+  };
+}
+
+/**
+ * Deletes blocks as a single undoable change, joining up the stacks they
+ * were in.
+ *
+ * @param blocks The blocks to delete.
+ */
+export function deleteBlocks(blocks: BlockSvg[]) {
+  const existingGroup = Events.getGroup();
+  if (!existingGroup) Events.setGroup(true);
+  for (const block of blocks) {
+    if (!block.isDeadOrDying()) block.dispose(true, true);
+  }
+  Events.setGroup(existingGroup);
+}
+
+/**
+ * Joins blocks into a single stack headed by the first of them, taking each
+ * out of the stack it was in.
+ *
+ * This starts an event group, which is left open so that a move of the
+ * joined stack is undone together with the join.
+ *
+ * @param blocks The blocks to join, in order. They must pass canChain.
+ * @returns A function that puts the blocks back where they were.
+ */
+export function gatherBlocks(blocks: BlockSvg[]): () => void {
+  if (!Events.getGroup()) Events.setGroup(true);
+  const group = Events.getGroup();
+  const origins = blocks.map((block) => ({
+    block,
+    parentConnection: block.previousConnection?.targetConnection ?? null,
+    location: block.getRelativeToSurfaceXY(),
+  }));
+
+  for (const block of [...blocks.slice(1), blocks[0]]) {
+    block.unplug(true);
+  }
+  for (let i = 1; i < blocks.length; i++) {
+    const previous = blocks[i - 1].nextConnection;
+    const next = blocks[i].previousConnection;
+    if (previous && next) previous.connect(next);
+  }
+
+  return () => {
+    Events.setGroup(group);
+    for (const {block, parentConnection, location} of origins) {
+      if (block.isDeadOrDying()) continue;
+      block.unplug(true);
+      // Whatever is now connected to the parent moves to the block's next
+      // connection.
+      if (
+        parentConnection &&
+        block.previousConnection &&
+        !parentConnection.getSourceBlock().isDeadOrDying()
+      ) {
+        parentConnection.connect(block.previousConnection);
+      } else {
+        block.moveTo(new utils.Coordinate(location.x, location.y));
+      }
+    }
+    Events.setGroup(false);
+  };
+}
+
+/**
+ * Returns the statements from one block to another in the same statement
+ * list, in order.
+ *
+ * @param from One end of the range.
+ * @param to The other end of the range.
+ * @returns The blocks, or null if they aren't in the same statement list.
+ */
+function getSiblingRange(from: BlockSvg, to: BlockSvg): BlockSvg[] | null {
+  for (const [first, last] of [
+    [from, to],
+    [to, from],
+  ]) {
+    const range: BlockSvg[] = [];
+    for (
+      let block: BlockSvg | null = first;
+      block;
+      block = block.getNextBlock()
+    ) {
+      range.push(block);
+      if (block === last) return range;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  Marker,
+  Workspace,
+  WorkspaceSvg,
+  serialization,
+} from 'blockly/core';
+
+/**
+ * The name the bookmarks are saved under in serialized workspaces.
+ */
+export const BOOKMARKS_SERIALIZER_NAME = 'keyboardNavigationBookmarks';
+
+/**
+ * The saved state of one bookmark.
+ */
+export interface BookmarkState {
+  name: string;
+  blockId: string;
+}
+
+/**
+ * Prefix for the IDs bookmarks are registered under in a workspace's marker
+ * manager, to keep them apart from other markers.
+ */
+const MARKER_ID_PREFIX = 'keyboardNavigationBookmark:';
+
+/**
+ * A marker on a bookmarked block.
+ *
+ * The block's ID is kept as well as the block itself so that the bookmark
+ * finds the block again after the workspace is reloaded.
+ */
+class BookmarkMarker extends Marker {
+  override type = 'bookmark';
+
+  constructor(readonly blockId: string) {
+    super();
+  }
+
+  /**
+   * Returns the bookmarked block.
+   *
+   * @param workspace The workspace the bookmark is on.
+   * @returns The block, or null if it has been deleted.
+   */
+  getBlock(workspace: WorkspaceSvg): BlockSvg | null {
+    const node = this.getCurNode();
+    if (node instanceof BlockSvg && !node.disposed) return node;
+    const block = workspace.getBlockById(this.blockId);
+    this.setCurNode(block);
+    return block;
+  }
+}
+
+/**
+ * Named bookmarks on the blocks of each workspace.
+ *
+ * Bookmarks are registered as markers with the workspace's marker manager,
+ * and are saved with the workspace when this is registered as a serializer.
+ */
+export class Bookmarks implements serialization.ISerializer {
+  /**
+   * Bookmarks are loaded after blocks, although they don't need the blocks
+   * to exist until they are used.
+   */
+  priority = serialization.priorities.WORKSPACE_COMMENTS - 1;
+
+  /** The bookmark names on each workspace, in the order they were set. */
+  private names: Map<WorkspaceSvg, string[]> = new Map();
+
+  /**
+   * Bookmarks a block, replacing any bookmark with the same name.
+   *
+   * @param workspace The workspace the block is on.
+   * @param name The name of the bookmark.
+   * @param blockId The ID of the block.
+   */
+  set(workspace: WorkspaceSvg, name: string, blockId: string) {
+    const names = this.getNames(workspace).filter((n) => n !== name);
+    names.push(name);
+    this.names.set(workspace, names);
+
+    const marker = new BookmarkMarker(blockId);
+    marker.setCurNode(workspace.getBlockById(blockId));
+    workspace
+      .getMarkerManager()
+      .registerMarker(MARKER_ID_PREFIX + name, marker);
+  }
+
+  /**
+   * Returns the block with a bookmark.
+   *
+   * @param workspace The workspace to look on.
+   * @param name The name of the bookmark.
+   * @returns The block, or null if there is no bookmark with that name or its
+   *     block has been deleted.
+   */
+  getBlock(workspace: WorkspaceSvg, name: string): BlockSvg | null {
+    const marker = workspace
+      .getMarkerManager()
+      .getMarker(MARKER_ID_PREFIX + name);
+    return marker instanceof BookmarkMarker ? marker.getBlock(workspace) : null;
+  }
+
+  /**
+   * Returns the names of the bookmarks on a workspace.
+   *
+   * @param workspace The workspace to look on.
+   * @returns The names, in the order the bookmarks were set.
+   */
+  getNames(workspace: WorkspaceSvg): string[] {
+    return [...(this.names.get(workspace) ?? [])];
+  }
+
+  /**
+   * Removes a bookmark.
+   *
+   * @param workspace The workspace the bookmark is on.
+   * @param name The name of the bookmark.
+   */
+  remove(workspace: WorkspaceSvg, name: string) {
+    const names = this.getNames(workspace);
+    if (!names.includes(name)) return;
+    this.names.set(
+      workspace,
+      names.filter((n) => n !== name),
+    );
+    workspace.getMarkerManager().unregisterMarker(MARKER_ID_PREFIX + name);
+  }
+
+  /**
+   * Saves the bookmarks on a workspace.
+   *
+   * @param workspace The workspace to save.
+   * @returns The bookmarks, or null if there aren't any.
+   */
+  save(workspace: Workspace): BookmarkState[] | null {
+    if (!(workspace instanceof WorkspaceSvg)) return null;
+    const state: BookmarkState[] = [];
+    for (const name of this.getNames(workspace)) {
+      const marker = workspace
+        .getMarkerManager()
+        .getMarker(MARKER_ID_PREFIX + name);
+      if (marker instanceof BookmarkMarker) {
+        state.push({name, blockId: marker.blockId});
+      }
+    }
+    return state.length ? state : null;
+  }
+
+  /**
+   * Loads saved bookmarks onto a workspace.
+   *
+   * @param state The saved bookmarks.
+   * @param workspace The workspace to load them onto.
+   */
+  load(state: BookmarkState[], workspace: Workspace) {
+    if (!(workspace instanceof WorkspaceSvg)) return;
+    for (const {name, blockId} of state) {
+      this.set(workspace, name, blockId);
+    }
+  }
+
+  /**
+   * Removes all bookmarks from a workspace.
+   *
+   * @param workspace The workspace to clear.
+   */
+  clear(workspace: Workspace) {
+    if (!(workspace instanceof WorkspaceSvg)) return;
+    for (const name of this.getNames(workspace)) {
+      this.remove(workspace, name);
+    }
+    this.names.delete(workspace);
+  }
+}
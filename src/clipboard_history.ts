@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {ICopyData, WorkspaceSvg} from 'blockly/core';
+
+/** The maximum number of copies and cuts remembered. */
+const MAX_HISTORY_LENGTH = 10;
+
+/**
+ * Something that was copied or cut.
+ */
+export interface ClipboardEntry {
+  /** The copied data, which can be pasted again. */
+  readonly data: ICopyData;
+  /** A short description of what was copied, for the history menu. */
+  readonly summary: string;
+  /** The workspace it was copied from. */
+  readonly workspace: WorkspaceSvg;
+}
+
+/**
+ * The things most recently copied or cut, so that earlier ones can still be
+ * pasted after something else has been copied.
+ *
+ * Copying the same thing again from the same workspace moves it to the front
+ * rather than adding it twice.
+ */
+export class ClipboardHistory {
+  /** The remembered entries, most recent first. */
+  private entries: ClipboardEntry[] = [];
+
+  /**
+   * Remembers something that was copied or cut, forgetting the oldest entry
+   * if there are too many.
+   *
+   * @param entry The copied data and where it came from.
+   */
+  add(entry: ClipboardEntry) {
+    const json = JSON.stringify(entry.data);
+    this.entries = this.entries.filter(
+      (existing) =>
+        existing.workspace !== entry.workspace ||
+        JSON.stringify(existing.data) !== json,
+    );
+    this.entries.unshift(entry);
+    this.entries.length = Math.min(this.entries.length, MAX_HISTORY_LENGTH);
+  }
+
+  /**
+   * Returns the remembered entries.
+   *
+   * @returns The entries, most recent first.
+   */
+  getEntries(): readonly ClipboardEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Forgets every entry.
+   */
+  clear() {
+    this.entries = [];
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly/core';
+
+/**
+ * The connections of one stack of blocks, in traversal order.
+ */
+interface IndexedStack {
+  /** The blocks in the stack, when it was indexed. */
+  blocks: Blockly.BlockSvg[];
+  /** The connections on those blocks, top to bottom then left to right. */
+  connections: Blockly.RenderedConnection[];
+  /** The position of each connection in the stack's connections. */
+  positions: Map<Blockly.RenderedConnection, number>;
+}
+
+/**
+ * Keyboard traversal order of the connections on a workspace: stack by stack,
+ * and top to bottom then left to right within each stack.
+ *
+ * Each stack's connections are sorted once when the stack is indexed, and
+ * the stacks are kept in order separately. Stepping from one connection to
+ * the next is a couple of map lookups. When blocks change, from workspace
+ * events or because the caller invalidates a stack, only the stacks that
+ * changed are sorted again; the order of the stacks themselves is only
+ * rebuilt when a stack is added, removed or moved. Finding the next
+ * compatible connection still checks connections one at a time; the index
+ * has no spatial part.
+ *
+ * Each stack is sorted by the positions of its connections when it is
+ * indexed. Layout changes that don't fire events, such as a connection
+ * preview opening a gap in a stack, only reorder the stack once it is
+ * invalidated.
+ */
+export class ConnectionIndex {
+  /** The indexed connections of each stack, keyed by top block. */
+  private stacks: Map<Blockly.BlockSvg, IndexedStack> = new Map();
+
+  /** The top block of the stack each indexed block was in, by block id. */
+  private roots: Map<string, Blockly.BlockSvg> = new Map();
+
+  /** Stacks that have changed since they were indexed. */
+  private staleStacks: Set<Blockly.BlockSvg> = new Set();
+
+  /** The top blocks in traversal order, or null if out of date. */
+  private rootOrder: Blockly.BlockSvg[] | null = null;
+
+  /** The position of each top block in the traversal order. */
+  private rootPositions: Map<Blockly.BlockSvg, number> = new Map();
+
+  /** Every indexed connection in traversal order, or null if out of date. */
+  private order: Blockly.RenderedConnection[] | null = null;
+
+  /** Listener that notices blocks being added, removed or moved. */
+  private changeListener = this.onChange.bind(this);
+
+  /**
+   * Creates an index of a workspace's connections and starts listening for
+   * changes to it. Call dispose when it is no longer needed.
+   *
+   * @param workspace The workspace to index.
+   * @param excludedBlock A top block, usually the one being moved, whose
+   *     connections are left out.
+   */
+  constructor(
+    private workspace: Blockly.WorkspaceSvg,
+    private excludedBlock: Blockly.BlockSvg | null = null,
+  ) {
+    workspace.addChangeListener(this.changeListener);
+  }
+
+  /**
+   * Stops listening for changes to the workspace.
+   */
+  dispose() {
+    this.workspace.removeChangeListener(this.changeListener);
+    this.stacks.clear();
+    this.roots.clear();
+    this.staleStacks.clear();
+    this.rootOrder = null;
+    this.rootPositions.clear();
+    this.order = null;
+  }
+
+  /**
+   * Returns every indexed connection in traversal order.
+   *
+   * @returns The connections. The array must not be modified.
+   */
+  getConnections(): readonly Blockly.RenderedConnection[] {
+    const rootOrder = this.refresh();
+    if (!this.order) {
+      this.order = rootOrder.flatMap((root) => this.getStack(root).connections);
+    }
+    return this.order;
+  }
+
+  /**
+   * Returns the connection that comes after or before another in traversal
+   * order, wrapping around at the ends.
+   *
+   * @param connection The connection to step from.
+   * @param forward True for the connection after, false for the one before.
+   * @returns The connection, the first or last connection if the given one
+   *     isn't indexed, or null if there are no connections.
+   */
+  getNeighbour(
+    connection: Blockly.RenderedConnection,
+    forward: boolean,
+  ): Blockly.RenderedConnection | null {
+    const rootOrder = this.refresh();
+    if (!rootOrder.length) return null;
+    const root = connection.getSourceBlock().getRootBlock();
+    const stack = this.rootPositions.has(root) ? this.getStack(root) : null;
+    const position = stack?.positions.get(connection);
+    // Connections that aren't indexed step to the first or last connection.
+    let rootPosition = forward ? -1 : 0;
+    if (stack && position !== undefined) {
+      const next = stack.connections[forward ? position + 1 : position - 1];
+      if (next) return next;
+      rootPosition = this.rootPositions.get(root) ?? rootPosition;
+    }
+    // Move on to the nearest stack in that direction that has connections.
+    const step = forward ? 1 : -1;
+    for (let i = 0; i < rootOrder.length; i++) {
+      rootPosition =
+        (rootPosition + step + rootOrder.length) % rootOrder.length;
+      const {connections} = this.getStack(rootOrder[rootPosition]);
+      if (connections.length) {
+        return forward ? connections[0] : connections[connections.length - 1];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Marks the stack a block is in as out of date, so that it is sorted again
+   * the next time it is needed. For changes to the layout of a stack that
+   * don't fire events.
+   *
+   * @param block A block in the stack.
+   */
+  invalidate(block: Blockly.BlockSvg) {
+    this.staleStacks.add(this.roots.get(block.id) ?? block.getRootBlock());
+    this.order = null;
+  }
+
+  /**
+   * Forgets the stacks that changed, so they are indexed again when next
+   * needed, and puts the stacks back in order if any were added, removed or
+   * moved.
+   *
+   * @returns The top blocks in traversal order.
+   */
+  private refresh(): Blockly.BlockSvg[] {
+    for (const root of this.staleStacks) this.removeStack(root);
+    this.staleStacks.clear();
+    if (this.rootOrder) return this.rootOrder;
+
+    const rootOrder = this.workspace
+      .getTopBlocks(true)
+      .filter((root) => root !== this.excludedBlock);
+    this.rootPositions.clear();
+    rootOrder.forEach((root, i) => this.rootPositions.set(root, i));
+    this.rootOrder = rootOrder;
+    return rootOrder;
+  }
+
+  /**
+   * Returns the indexed connections of a stack, indexing it if needed.
+   *
+   * @param root The top block of the stack.
+   * @returns The indexed stack.
+   */
+  private getStack(root: Blockly.BlockSvg): IndexedStack {
+    return this.stacks.get(root) ?? this.indexStack(root);
+  }
+
+  /**
+   * Indexes the connections of a stack.
+   *
+   * @param root The top block of the stack.
+   * @returns The indexed stack.
+   */
+  private indexStack(root: Blockly.BlockSvg): IndexedStack {
+    // Insertion markers come and go during a move without firing events.
+    const blocks = root
+      .getDescendants(true)
+      .filter((block) => !block.isInsertionMarker());
+    const connections = blocks
+      .flatMap((block) => block.getConnections_(false))
+      .sort((a, b) => {
+        let delta = a.y - b.y;
+        if (delta === 0) {
+          delta = a.x - b.x;
+        }
+        return delta;
+      });
+    const positions = new Map(
+      connections.map((connection, i) => [connection, i]),
+    );
+    const stack = {blocks, connections, positions};
+    this.stacks.set(root, stack);
+    for (const block of blocks) this.roots.set(block.id, root);
+    return stack;
+  }
+
+  /**
+   * Forgets the indexed connections of a stack.
+   *
+   * @param root The top block of the stack.
+   */
+  private removeStack(root: Blockly.BlockSvg) {
+    const stack = this.stacks.get(root);
+    if (!stack) return;
+    for (const block of stack.blocks) {
+      if (this.roots.get(block.id) === root) this.roots.delete(block.id);
+    }
+    this.stacks.delete(root);
+  }
+
+  /**
+   * Marks the stacks affected by a workspace change as out of date, and the
+   * order of the stacks too if a stack may have been added, removed or
+   * moved.
+   *
+   * @param e The workspace event.
+   */
+  private onChange(e: Blockly.Events.Abstract) {
+    let ids: string[] = [];
+    let stacksMoved = false;
+    if (e.type === Blockly.Events.BLOCK_CREATE) {
+      ids = (e as Blockly.Events.BlockCreate).ids ?? [];
+      stacksMoved = true;
+    } else if (e.type === Blockly.Events.BLOCK_DELETE) {
+      ids = (e as Blockly.Events.BlockDelete).ids ?? [];
+      stacksMoved = true;
+    } else if (e.type === Blockly.Events.BLOCK_MOVE) {
+      const move = e as Blockly.Events.BlockMove;
+      ids = [move.blockId ?? ''];
+      // Blocks that are or were at the top of a stack.
+      stacksMoved = !move.oldParentId || !move.newParentId;
+    } else if (
+      e.type === Blockly.Events.BLOCK_CHANGE &&
+      (e as Blockly.Events.BlockChange).element === 'mutation'
+    ) {
+      ids = [(e as Blockly.Events.BlockChange).blockId ?? ''];
+    }
+    for (const id of ids) {
+      // Both the stack the block was in and the one it is in now change.
+      const oldRoot = this.roots.get(id);
+      if (oldRoot) this.staleStacks.add(oldRoot);
+      const newRoot = this.workspace.getBlockById(id)?.getRootBlock();
+      if (newRoot) this.staleStacks.add(newRoot);
+      this.order = null;
+    }
+    if (stacksMoved) this.rootOrder = null;
+  }
+}
@@ -35,15 +35,48 @@ export enum SHORTCUT_NAMES {
   LEFT = 'left',
   NEXT_STACK = 'next_stack',
   PREVIOUS_STACK = 'previous_stack',
+  FIND = 'find',
+  FIND_NEXT = 'find_next',
+  FIND_PREVIOUS = 'find_previous',
+  REPLACE = 'replace',
+  REPLACE_ALL = 'replace_all',
+  NAVIGATE_BACK = 'navigate_back',
+  NAVIGATE_FORWARD = 'navigate_forward',
+  SET_BOOKMARK = 'set_bookmark',
+  GO_TO_BOOKMARK = 'go_to_bookmark',
+  NAME_BOOKMARK = 'name_bookmark',
+  LIST_BOOKMARKS = 'list_bookmarks',
+  GO_TO_DEFINITION = 'go_to_definition',
+  FIND_USAGES = 'find_usages',
+  PAN_UP = 'pan_up',
+  PAN_DOWN = 'pan_down',
+  PAN_LEFT = 'pan_left',
+  PAN_RIGHT = 'pan_right',
+  ZOOM_IN = 'zoom_in',
+  ZOOM_OUT = 'zoom_out',
+  ZOOM_RESET = 'zoom_reset',
+  ZOOM_TO_STACK = 'zoom_to_stack',
+  TOGGLE_SELECTION = 'toggle_selection',
+  EXTEND_SELECTION_UP = 'extend_selection_up',
+  EXTEND_SELECTION_DOWN = 'extend_selection_down',
+  CLEAR_SELECTION = 'clear_selection',
+  MOVE_STATEMENT_UP = 'move_statement_up',
+  MOVE_STATEMENT_DOWN = 'move_statement_down',
+  SURROUND_WITH = 'surround_with',
+  UNWRAP = 'unwrap',
   INSERT = 'insert',
+  INSERT_PALETTE = 'insert_palette',
   EDIT_OR_CONFIRM = 'edit_or_confirm',
   DISCONNECT = 'disconnect',
   TOOLBOX = 'toolbox',
   EXIT = 'exit',
   MENU = 'menu',
   COPY = 'keyboard_nav_copy',
+  COPY_AS_CODE = 'copy_as_code',
   CUT = 'keyboard_nav_cut',
   PASTE = 'keyboard_nav_paste',
+  PASTE_FROM_HISTORY = 'paste_from_history',
+  PASTE_WITH_PLACEMENT = 'paste_with_placement',
   DUPLICATE = 'duplicate',
   MOVE_WS_CURSOR_UP = 'workspace_up',
   MOVE_WS_CURSOR_DOWN = 'workspace_down',
@@ -87,12 +120,26 @@ SHORTCUT_CATEGORIES[Msg['SHORTCUTS_GENERAL']] = [
 
 SHORTCUT_CATEGORIES[Msg['SHORTCUTS_EDITING']] = [
   SHORTCUT_NAMES.INSERT,
+  SHORTCUT_NAMES.INSERT_PALETTE,
+  SHORTCUT_NAMES.TOGGLE_SELECTION,
+  SHORTCUT_NAMES.EXTEND_SELECTION_UP,
+  SHORTCUT_NAMES.EXTEND_SELECTION_DOWN,
+  SHORTCUT_NAMES.CLEAR_SELECTION,
   'delete',
   SHORTCUT_NAMES.DISCONNECT,
+  SHORTCUT_NAMES.MOVE_STATEMENT_UP,
+  SHORTCUT_NAMES.MOVE_STATEMENT_DOWN,
+  SHORTCUT_NAMES.SURROUND_WITH,
+  SHORTCUT_NAMES.UNWRAP,
   'cut',
   'copy',
+  SHORTCUT_NAMES.COPY_AS_CODE,
   'paste',
+  SHORTCUT_NAMES.PASTE_FROM_HISTORY,
+  SHORTCUT_NAMES.PASTE_WITH_PLACEMENT,
   SHORTCUT_NAMES.DUPLICATE,
+  SHORTCUT_NAMES.REPLACE,
+  SHORTCUT_NAMES.REPLACE_ALL,
   'undo',
   'redo',
 ];
@@ -104,4 +151,23 @@ SHORTCUT_CATEGORIES[Msg['SHORTCUTS_CODE_NAVIGATION']] = [
   SHORTCUT_NAMES.LEFT,
   SHORTCUT_NAMES.NEXT_STACK,
   SHORTCUT_NAMES.PREVIOUS_STACK,
+  SHORTCUT_NAMES.FIND,
+  SHORTCUT_NAMES.FIND_NEXT,
+  SHORTCUT_NAMES.FIND_PREVIOUS,
+  SHORTCUT_NAMES.NAVIGATE_BACK,
+  SHORTCUT_NAMES.NAVIGATE_FORWARD,
+  SHORTCUT_NAMES.SET_BOOKMARK,
+  SHORTCUT_NAMES.GO_TO_BOOKMARK,
+  SHORTCUT_NAMES.NAME_BOOKMARK,
+  SHORTCUT_NAMES.LIST_BOOKMARKS,
+  SHORTCUT_NAMES.GO_TO_DEFINITION,
+  SHORTCUT_NAMES.FIND_USAGES,
+  SHORTCUT_NAMES.PAN_UP,
+  SHORTCUT_NAMES.PAN_DOWN,
+  SHORTCUT_NAMES.PAN_LEFT,
+  SHORTCUT_NAMES.PAN_RIGHT,
+  SHORTCUT_NAMES.ZOOM_IN,
+  SHORTCUT_NAMES.ZOOM_OUT,
+  SHORTCUT_NAMES.ZOOM_RESET,
+  SHORTCUT_NAMES.ZOOM_TO_STACK,
 ];
@@ -14,6 +14,7 @@ const unconstrainedMoveHintId = 'unconstrainedMoveHint';
 const constrainedMoveHintId = 'constrainedMoveHint';
 const copiedHintId = 'copiedHint';
 const cutHintId = 'cutHint';
+const pasteErrorHintId = 'pasteErrorHint';
 const helpHintId = 'helpHint';
 
 /**
@@ -97,6 +98,20 @@ export function clearPasteHints(workspace: WorkspaceSvg) {
   Toast.hide(workspace, copiedHintId);
 }
 
+/**
+ * Explain why something couldn't be pasted.
+ *
+ * @param workspace The workspace.
+ * @param message What was wrong with the pasted text.
+ */
+export function showPasteErrorHint(workspace: WorkspaceSvg, message: string) {
+  Toast.show(workspace, {
+    message,
+    duration: 7,
+    id: pasteErrorHintId,
+  });
+}
+
 /**
  * Nudge the user to open the help.
  *
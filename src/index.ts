@@ -8,6 +8,15 @@ import * as Blockly from 'blockly/core';
 import {NavigationController} from './navigation_controller';
 import {enableBlocksOnDrag} from './disabled_blocks';
 import {registerHtmlToast} from './html_toast';
+import {Announcer} from './announcer';
+import {Keymap, KeymapOverrides} from './keymap';
+import {KEYMAP_PRESETS, KeymapPresetName} from './keymap_presets';
+import {MoveOptions} from './actions/mover';
+import {OutlineView} from './outline_view';
+import {
+  PasteCompatibilityName,
+  PasteCompatibilityPolicy,
+} from './paste_compatibility';
 
 /** Plugin for keyboard navigation. */
 export class KeyboardNavigation {
@@ -17,9 +26,18 @@ export class KeyboardNavigation {
   /** Keyboard navigation controller instance for the workspace. */
   private navigationController: NavigationController;
 
+  /** Screen reader announcer for the workspace. */
+  private announcer: Announcer;
+
+  /** Keys for the keyboard shortcuts. */
+  private keymap: Keymap;
+
   /** Cursor for the main workspace. */
   private cursor: Blockly.LineCursor;
 
+  /** Outlines of the workspace that have been added to the page. */
+  private outlineViews: OutlineView[] = [];
+
   /**
    * Focus ring in the workspace.
    */
@@ -46,16 +64,45 @@ export class KeyboardNavigation {
    * option to appear enabled when pasting in a different workspace
    * than was copied from. Defaults to false. Set to true if using
    * cross-tab-copy-paste plugin or similar.
+   * @param options.keymap Keys to use instead of the defaults, by shortcut
+   * name. Keys the user has rebound with getKeymap().rebind take precedence.
+   * @param options.keymapPreset The bundled layout to start from: 'default',
+   * 'screenReaderSafe' or 'vim'. The keymap option is applied on top of it.
+   * @param options.moveOptions Step sizes for moving blocks and comments
+   * with the keyboard.
+   * @param options.pasteCompatibility Decides whether something copied from
+   * one workspace can be pasted into another, instead of
+   * allowCrossWorkspacePaste: 'sameWorkspace', 'anyWorkspace',
+   * 'compatibleBlocks' or a function that returns why a paste isn't allowed.
+   * @param options.codeGenerator The app's code generator, such as
+   * javascriptGenerator, for copying blocks as code.
    */
   constructor(
     workspace: Blockly.WorkspaceSvg,
-    options: {allowCrossWorkspacePaste: boolean} = {
+    options: {
+      allowCrossWorkspacePaste: boolean;
+      pasteCompatibility?: PasteCompatibilityName | PasteCompatibilityPolicy;
+      codeGenerator?: Blockly.CodeGenerator;
+      keymap?: KeymapOverrides;
+      keymapPreset?: KeymapPresetName;
+      moveOptions?: MoveOptions;
+    } = {
       allowCrossWorkspacePaste: false,
     },
   ) {
     this.workspace = workspace;
 
-    this.navigationController = new NavigationController(options);
+    const preset = KEYMAP_PRESETS[options.keymapPreset ?? 'default'];
+    if (!preset) {
+      throw new Error(`Unknown keymap preset "${options.keymapPreset}".`);
+    }
+    this.announcer = new Announcer(workspace.getInjectionDiv());
+    this.keymap = new Keymap(options.keymap, undefined, preset);
+    this.navigationController = new NavigationController(
+      options,
+      this.announcer,
+      this.keymap,
+    );
     this.navigationController.init();
     this.navigationController.addWorkspace(workspace);
     this.navigationController.enable(workspace);
@@ -130,6 +177,48 @@ export class KeyboardNavigation {
     // Remove the event listener that enables blocks on drag
     this.workspace.removeChangeListener(enableBlocksOnDrag);
     this.navigationController.dispose();
+    this.announcer.dispose();
+    for (const outline of this.outlineViews) outline.dispose();
+    this.outlineViews = [];
+  }
+
+  /**
+   * Returns the announcer used to speak the results of keyboard actions, so
+   * that applications can add their own announcements.
+   *
+   * @returns The announcer.
+   */
+  getAnnouncer(): Announcer {
+    return this.announcer;
+  }
+
+  /**
+   * Returns the keymap, which can be used to change the keys for any
+   * keyboard shortcut at runtime. Changes are saved to localStorage.
+   *
+   * @returns The keymap.
+   */
+  getKeymap(): Keymap {
+    return this.keymap;
+  }
+
+  /**
+   * Adds an outline of the workspace to the page: an HTML tree of its stacks,
+   * blocks, fields and inputs that follows the workspace cursor and that
+   * screen reader users can browse the program with.
+   *
+   * @param container The element to add the outline to.
+   * @returns The outline. Call dispose on it to remove it sooner; disposing
+   *     of the plugin removes it too.
+   */
+  createOutlineView(container: HTMLElement): OutlineView {
+    const outline = new OutlineView(
+      this.workspace,
+      container,
+      this.announcer.getDescriber(),
+    );
+    this.outlineViews.push(outline);
+    return outline;
   }
 
   /**
@@ -178,6 +267,12 @@ export class KeyboardNavigation {
     // Many selectors include .blocklyKeyboardNavigation to ensure keyboard
     // nav is on (via the heuristic). This class is added/removed from body.
     Blockly.Css.register(`
+  /* Blocks selected to act on together. */
+  .blocklyKeyboardNavigation .blocklyMultiSelected > .blocklyPath {
+    stroke: var(--blockly-active-tree-color);
+    stroke-width: var(--blockly-selection-width);
+  }
+
   /* Active focus cases: */
   /* Blocks with active focus. */
   .blocklyKeyboardNavigation
@@ -306,6 +401,42 @@ export class KeyboardNavigation {
   }
 `);
 
+    // Styling for the free-movement workspace cursor.
+    //
+    // This should remain in the plugin for the time being because the
+    // workspace cursor is currently only defined in the plugin.
+    Blockly.Css.register(`
+  .blocklyWorkspaceCursor {
+    display: none;
+    pointer-events: none;
+  }
+  .blocklyKeyboardNavigation
+    .blocklyWorkspace.blocklyActiveFocus
+    .blocklyWorkspaceCursor {
+    display: inline;
+    stroke: var(--blockly-active-node-color);
+    stroke-width: var(--blockly-selection-width);
+  }
+`);
+
+    // Styling for the screen reader live regions.
+    //
+    // These are visually hidden but must not use display: none, or screen
+    // readers will not read their contents.
+    Blockly.Css.register(`
+  .blocklyAriaLiveRegion {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    margin: -1px;
+    padding: 0;
+    overflow: hidden;
+    clip: rect(0 0 0 0);
+    white-space: nowrap;
+    border: 0;
+  }
+`);
+
     // Keyboard-nav-specific styling for the context menu.
     //
     // This should remain in the plugin for the time being because the
@@ -325,6 +456,75 @@ export class KeyboardNavigation {
   }
 `);
 
+    // Styling for the insert block palette.
+    //
+    // This should remain in the plugin for the time being because the
+    // palette is currently only defined in the plugin.
+    Blockly.Css.register(`
+  .blocklyBlockPalette {
+    background: #fff;
+    border: 1px solid #ccc;
+    border-radius: 4px;
+    box-shadow: 0 0 3px 1px rgba(0,0,0,.3);
+    margin: 8px;
+    padding: 4px;
+    width: 320px;
+  }
+  .blocklyBlockPaletteInput {
+    box-sizing: border-box;
+    font: inherit;
+    padding: 4px 8px;
+    width: 100%;
+  }
+  .blocklyBlockPaletteList {
+    list-style: none;
+    margin: 4px 0 0;
+    max-height: 50vh;
+    overflow-y: auto;
+    padding: 0;
+  }
+  .blocklyBlockPaletteOption {
+    cursor: pointer;
+    padding: 4px 8px;
+  }
+  .blocklyBlockPaletteOptionActive {
+    background: rgba(0,0,0,.1);
+    outline: 2px solid var(--blockly-active-node-color);
+    outline-offset: -2px;
+  }
+`);
+
+    // Styling for the outline view.
+    //
+    // The outline is outside the injection div, so it can't use the focus
+    // colour variables.
+    Blockly.Css.register(`
+  .blocklyOutline,
+  .blocklyOutline [role='group'] {
+    list-style: none;
+    margin: 0;
+    padding: 0 0 0 1em;
+  }
+  .blocklyOutline {
+    padding: 0;
+  }
+  .blocklyOutlineItem {
+    padding: 2px 0;
+  }
+  .blocklyOutlineItem[aria-expanded] > .blocklyOutlineLabel::before {
+    content: '\\25B8 ';
+  }
+  .blocklyOutlineItem[aria-expanded='true'] > .blocklyOutlineLabel::before {
+    content: '\\25BE ';
+  }
+  .blocklyOutlineItem:focus {
+    outline: none;
+  }
+  .blocklyOutlineItem:focus > .blocklyOutlineLabel {
+    outline: 2px solid #60a5fa;
+  }
+`);
+
     // Register classes used by the shortcuts modal
     Blockly.Css.register(`
 :root {
@@ -15,9 +15,10 @@ import {Direction, getDirectionFromXY} from './drag_direction';
 import {showUnconstrainedMoveHint} from './hints';
 import {MoveIcon} from './move_icon';
 import {MoveType} from './actions/mover';
+import {ConnectionIndex} from './connection_index';
 
 // Copied in from core because it is not exported.
-interface ConnectionCandidate {
+export interface ConnectionCandidate {
   /** A connection on the dragging stack that is compatible with neighbour. */
   local: RenderedConnection;
 
@@ -36,6 +37,9 @@ export class KeyboardDragStrategy extends dragging.BlockDragStrategy {
   /** Where a constrained movement should start when traversing the tree. */
   private searchNode: RenderedConnection | null = null;
 
+  /** Traversal order of the workspace's connections, while dragging. */
+  private connectionIndex: ConnectionIndex | null = null;
+
   constructor(
     private block: BlockSvg,
     public moveType: MoveType,
@@ -54,12 +58,22 @@ export class KeyboardDragStrategy extends dragging.BlockDragStrategy {
     this.connectionCandidate = this.createInitialCandidate();
     this.forceShowPreview();
     this.block.addIcon(new MoveIcon(this.block));
+    // Index the connections now, so that each step of the move only has to
+    // look up where it is.
+    this.connectionIndex = new ConnectionIndex(
+      this.block.workspace,
+      this.block,
+    );
+    this.connectionIndex.getConnections();
   }
 
   override drag(newLoc: utils.Coordinate, e?: PointerEvent): void {
     if (!e) return;
     this.currentDragDirection = getDirectionFromXY({x: e.tiltX, y: e.tiltY});
+    // @ts-expect-error connectionCandidate is private.
+    const previous = this.connectionCandidate as ConnectionCandidate | null;
     super.drag(newLoc);
+    this.invalidatePreviewStacks(previous);
 
     // Handle the case when an unconstrained drag found a connection candidate.
     // @ts-expect-error connectionCandidate is private.
@@ -92,6 +106,8 @@ export class KeyboardDragStrategy extends dragging.BlockDragStrategy {
   override endDrag(e?: PointerEvent) {
     super.endDrag(e);
     this.block.removeIcon(MoveIcon.type);
+    this.connectionIndex?.dispose();
+    this.connectionIndex = null;
   }
 
   /**
@@ -168,31 +184,14 @@ export class KeyboardDragStrategy extends dragging.BlockDragStrategy {
     const connectionChecker = draggingBlock.workspace.connectionChecker;
     let candidateConnection: ConnectionCandidate | null = null;
     let potential: RenderedConnection | null = this.searchNode;
-    const allConnections: RenderedConnection[] = [];
-    for (const topBlock of draggingBlock.workspace.getTopBlocks(true)) {
-      allConnections.push(
-        ...topBlock
-          .getDescendants(true)
-          .flatMap((block: BlockSvg) => block.getConnections_(false))
-          .sort((a: RenderedConnection, b: RenderedConnection) => {
-            let delta = a.y - b.y;
-            if (delta === 0) {
-              delta = a.x - b.x;
-            }
-            return delta;
-          }),
-      );
-    }
+    const index = this.getConnectionIndex(draggingBlock);
 
     const dir = this.currentDragDirection;
     while (potential && !candidateConnection) {
-      const potentialIndex = allConnections.indexOf(potential);
       if (dir === Direction.Up || dir === Direction.Left) {
-        potential =
-          allConnections[potentialIndex - 1] ??
-          allConnections[allConnections.length - 1];
+        potential = index.getNeighbour(potential, false);
       } else if (dir === Direction.Down || dir === Direction.Right) {
-        potential = allConnections[potentialIndex + 1] ?? allConnections[0];
+        potential = index.getNeighbour(potential, true);
       }
 
       localConns.forEach((conn: RenderedConnection) => {
@@ -212,6 +211,90 @@ export class KeyboardDragStrategy extends dragging.BlockDragStrategy {
     return candidateConnection;
   }
 
+  /**
+   * Get every valid candidate connection for the dragging block, in traversal
+   * order.
+   *
+   * @returns The candidates, which may be empty.
+   */
+  getAllCandidates(): ConnectionCandidate[] {
+    // @ts-expect-error getLocalConnections is private.
+    const localConns: RenderedConnection[] = this.getLocalConnections(
+      this.block,
+    );
+    const connectionChecker = this.block.workspace.connectionChecker;
+    const index = this.getConnectionIndex(this.block);
+    const candidates: ConnectionCandidate[] = [];
+    for (const neighbour of index.getConnections()) {
+      const local = localConns.find((conn) =>
+        connectionChecker.canConnect(conn, neighbour, true, Infinity),
+      );
+      if (local) candidates.push({local, neighbour, distance: 0});
+    }
+    return candidates;
+  }
+
+  /**
+   * Make a candidate the current one, as if a constrained move had found it,
+   * show its preview and move the block next to it.
+   *
+   * @param candidate The candidate to connect to if the drag ends now.
+   */
+  setCandidate(candidate: ConnectionCandidate) {
+    this.searchNode = candidate.neighbour;
+    // @ts-expect-error connectionCandidate is private.
+    const previous = this.connectionCandidate as ConnectionCandidate | null;
+    // @ts-expect-error connectionPreviewer is private
+    this.connectionPreviewer?.hidePreview();
+    // @ts-expect-error connectionCandidate is private.
+    this.connectionCandidate = candidate;
+    this.forceShowPreview();
+    this.invalidatePreviewStacks(previous);
+    // Position the moving block down and slightly to the right of the
+    // target connection, as a constrained drag does.
+    const neighbour = candidate.neighbour;
+    this.block.moveDuringDrag(
+      new utils.Coordinate(neighbour.x + 10, neighbour.y + 10),
+    );
+  }
+
+  /**
+   * Marks the stacks where the connection preview was and now is as out of
+   * date in the connection index, since the preview changes their layout
+   * without firing events.
+   *
+   * @param previous The candidate that was previewed before.
+   */
+  private invalidatePreviewStacks(previous: ConnectionCandidate | null) {
+    if (!this.connectionIndex) return;
+    // @ts-expect-error connectionCandidate is private.
+    const current = this.connectionCandidate as ConnectionCandidate | null;
+    if (previous === current) return;
+    for (const candidate of [previous, current]) {
+      const block = candidate?.neighbour.getSourceBlock();
+      if (block && !block.isDeadOrDying()) {
+        this.connectionIndex.invalidate(block);
+      }
+    }
+  }
+
+  /**
+   * Get the traversal order of the workspace's connections, indexing them if
+   * the drag hasn't already.
+   *
+   * @param draggingBlock The root block being dragged.
+   * @returns The index.
+   */
+  private getConnectionIndex(draggingBlock: BlockSvg): ConnectionIndex {
+    if (!this.connectionIndex) {
+      this.connectionIndex = new ConnectionIndex(
+        draggingBlock.workspace,
+        draggingBlock,
+      );
+    }
+    return this.connectionIndex;
+  }
+
   override currCandidateIsBetter(
     currCandidate: ConnectionCandidate,
     delta: utils.Coordinate,
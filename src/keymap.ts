@@ -0,0 +1,239 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {ShortcutRegistry} from 'blockly/core';
+
+/**
+ * Keys to use for shortcuts instead of their defaults, by shortcut name.
+ *
+ * Keys are key codes, or serialized keys created with
+ * `ShortcutRegistry.registry.createSerializedKey` for keys with modifiers.
+ */
+export type KeymapOverrides = Record<string, Array<string | number>>;
+
+/**
+ * The localStorage key that keys rebound at runtime are saved under.
+ */
+export const KEYMAP_STORAGE_KEY = 'blocklyKeyboardNavigationKeymap';
+
+/**
+ * Lets the keys for any registered shortcut be changed, both by the
+ * application when the plugin is created and by the user at runtime.
+ *
+ * Keys are taken from a preset first, then from the application's
+ * overrides. Keys rebound at runtime are saved to localStorage and take
+ * precedence over both the next time the plugin is created.
+ */
+export class Keymap {
+  /** The keys each overridden shortcut had before it was overridden. */
+  private defaults: Map<string, string[]> = new Map();
+
+  /** Keys rebound at runtime, by shortcut name. */
+  private userOverrides: KeymapOverrides;
+
+  /**
+   * Constructs a keymap.
+   *
+   * @param overrides Keys to use instead of the defaults, by shortcut name.
+   * @param storage Where to save keys rebound at runtime, or null not to
+   *     save them.
+   * @param preset Keys to use before the overrides, such as one of
+   *     KEYMAP_PRESETS.
+   */
+  constructor(
+    private overrides: KeymapOverrides = {},
+    private storage: Storage | null = getLocalStorage(),
+    private preset: KeymapOverrides = {},
+  ) {
+    this.userOverrides = this.load();
+  }
+
+  /**
+   * Applies the overrides to the registered shortcuts. Should be called after
+   * the shortcuts have been registered.
+   *
+   * The preset's keys are applied even if other shortcuts use them, and any
+   * for shortcuts that aren't registered are ignored. Other overrides for
+   * shortcuts that aren't registered, or whose keys are used by other
+   * shortcuts, are skipped with a warning.
+   */
+  apply() {
+    this.defaults.clear();
+    for (const [name, keys] of Object.entries(this.preset)) {
+      if (this.isRegistered(name)) this.setKeys(name, keys, true);
+    }
+    const combined = {...this.overrides, ...this.userOverrides};
+    for (const [name, keys] of Object.entries(combined)) {
+      if (!this.isRegistered(name)) {
+        console.warn(`Can't rebind unknown shortcut "${name}".`);
+        continue;
+      }
+      const conflicts = this.getConflicts(name, keys);
+      if (conflicts.length) {
+        console.warn(
+          `Can't rebind "${name}": its keys are used by ` +
+            `${conflicts.join(', ')}.`,
+        );
+        continue;
+      }
+      this.setKeys(name, keys);
+    }
+  }
+
+  /**
+   * Changes the keys for a shortcut and saves the change.
+   *
+   * @param name The name of the shortcut.
+   * @param keys The keys to use. Key codes, or serialized keys for keys with
+   *     modifiers.
+   * @param allowCollision True to allow keys that other shortcuts use.
+   * @throws {Error} If the shortcut isn't registered, or if a key is used by
+   *     another shortcut and allowCollision isn't set.
+   */
+  rebind(name: string, keys: Array<string | number>, allowCollision = false) {
+    if (!this.isRegistered(name)) {
+      throw new Error(`Keyboard shortcut named "${name}" not found.`);
+    }
+    const conflicts = this.getConflicts(name, keys);
+    if (conflicts.length && !allowCollision) {
+      throw new Error(
+        `Keys for "${name}" are already used by ${conflicts.join(', ')}.`,
+      );
+    }
+    this.setKeys(name, keys, allowCollision);
+    this.userOverrides[name] = [...keys];
+    this.save();
+  }
+
+  /**
+   * Restores the application's or preset's keys for a shortcut, or for all
+   * shortcuts, and forgets any runtime changes.
+   *
+   * @param name The name of the shortcut, or undefined to reset all of them.
+   */
+  reset(name?: string) {
+    const names = name === undefined ? Object.keys(this.userOverrides) : [name];
+    for (const shortcutName of names) {
+      delete this.userOverrides[shortcutName];
+      if (!this.isRegistered(shortcutName)) continue;
+      const keys =
+        this.overrides[shortcutName] ??
+        this.preset[shortcutName] ??
+        this.defaults.get(shortcutName);
+      if (keys) this.setKeys(shortcutName, keys, true);
+    }
+    this.save();
+  }
+
+  /**
+   * Returns the keys bound to a shortcut.
+   *
+   * @param name The name of the shortcut.
+   * @returns The serialized keys.
+   */
+  getKeys(name: string): string[] {
+    return ShortcutRegistry.registry.getKeyCodesByShortcutName(name);
+  }
+
+  /**
+   * Returns the other shortcuts that use any of the given keys.
+   *
+   * @param name The name of the shortcut that would use the keys.
+   * @param keys The keys to check.
+   * @returns The names of the other shortcuts, without duplicates.
+   */
+  getConflicts(name: string, keys: Array<string | number>): string[] {
+    const conflicts = new Set<string>();
+    for (const key of keys) {
+      const names =
+        ShortcutRegistry.registry.getShortcutNamesByKeyCode(`${key}`) ?? [];
+      for (const other of names) {
+        if (other !== name) conflicts.add(other);
+      }
+    }
+    return [...conflicts];
+  }
+
+  /**
+   * Replaces the keys bound to a shortcut, remembering its original keys.
+   *
+   * @param name The name of the shortcut.
+   * @param keys The keys to bind.
+   * @param allowCollision True to allow keys that other shortcuts use.
+   */
+  private setKeys(
+    name: string,
+    keys: Array<string | number>,
+    allowCollision = false,
+  ) {
+    const registry = ShortcutRegistry.registry;
+    if (!this.defaults.has(name)) {
+      this.defaults.set(name, registry.getKeyCodesByShortcutName(name));
+    }
+    registry.removeAllKeyMappings(name);
+    for (const key of keys) {
+      registry.addKeyMapping(key, name, allowCollision);
+    }
+  }
+
+  /**
+   * Returns whether a shortcut is registered.
+   *
+   * @param name The name of the shortcut.
+   * @returns True if it is registered.
+   */
+  private isRegistered(name: string): boolean {
+    return name in ShortcutRegistry.registry.getRegistry();
+  }
+
+  /**
+   * Reads the keys rebound at runtime from storage.
+   *
+   * @returns The saved keys, or no keys if there are none or they can't be
+   *     read.
+   */
+  private load(): KeymapOverrides {
+    try {
+      const saved = this.storage?.getItem(KEYMAP_STORAGE_KEY);
+      return saved ? (JSON.parse(saved) as KeymapOverrides) : {};
+    } catch (e) {
+      console.warn('Could not load the saved keymap.', e);
+      return {};
+    }
+  }
+
+  /**
+   * Writes the keys rebound at runtime to storage.
+   */
+  private save() {
+    try {
+      if (Object.keys(this.userOverrides).length) {
+        this.storage?.setItem(
+          KEYMAP_STORAGE_KEY,
+          JSON.stringify(this.userOverrides),
+        );
+      } else {
+        this.storage?.removeItem(KEYMAP_STORAGE_KEY);
+      }
+    } catch (e) {
+      console.warn('Could not save the keymap.', e);
+    }
+  }
+}
+
+/**
+ * Returns the browser's localStorage, if it can be used.
+ *
+ * @returns localStorage, or null if it isn't available.
+ */
+function getLocalStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Accessing localStorage throws when storage is disabled.
+    return null;
+  }
+}
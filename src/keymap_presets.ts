@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {ShortcutRegistry, utils} from 'blockly/core';
+import {SHORTCUT_NAMES} from './constants';
+import type {KeymapOverrides} from './keymap';
+
+const KeyCodes = utils.KeyCodes;
+const createSerializedKey = ShortcutRegistry.registry.createSerializedKey.bind(
+  ShortcutRegistry.registry,
+);
+
+/**
+ * The names of the bundled keymap presets.
+ */
+export type KeymapPresetName =
+  | 'default'
+  | 'screenReaderSafe'
+  | 'singleSwitch'
+  | 'vim';
+
+/** The digit keys used for numbered bookmarks. */
+const DIGIT_KEYS = [
+  KeyCodes.ONE,
+  KeyCodes.TWO,
+  KeyCodes.THREE,
+  KeyCodes.FOUR,
+  KeyCodes.FIVE,
+  KeyCodes.SIX,
+  KeyCodes.SEVEN,
+  KeyCodes.EIGHT,
+  KeyCodes.NINE,
+];
+
+/**
+ * Returns the serialized key for a key pressed with Alt and Shift.
+ *
+ * @param keyCode The key code.
+ * @returns The serialized key.
+ */
+function altShift(keyCode: number): string {
+  return createSerializedKey(keyCode, [KeyCodes.ALT, KeyCodes.SHIFT]);
+}
+
+/**
+ * Keys that screen readers don't intercept.
+ *
+ * In browse mode, NVDA and JAWS use letters and digits, with or without
+ * Shift, to jump between page elements, so every shortcut that uses them is
+ * moved to Alt + Shift instead.
+ */
+const SCREEN_READER_SAFE: KeymapOverrides = {
+  [SHORTCUT_NAMES.TOOLBOX]: [altShift(KeyCodes.T)],
+  [SHORTCUT_NAMES.CLEAN_UP]: [altShift(KeyCodes.C)],
+  [SHORTCUT_NAMES.INSERT_PALETTE]: [altShift(KeyCodes.I)],
+  [SHORTCUT_NAMES.DISCONNECT]: [altShift(KeyCodes.X)],
+  [SHORTCUT_NAMES.SURROUND_WITH]: [altShift(KeyCodes.E)],
+  [SHORTCUT_NAMES.UNWRAP]: [altShift(KeyCodes.Q)],
+  [SHORTCUT_NAMES.DUPLICATE]: [altShift(KeyCodes.D)],
+  [SHORTCUT_NAMES.FIND]: [altShift(KeyCodes.F)],
+  [SHORTCUT_NAMES.REPLACE]: [altShift(KeyCodes.R)],
+  [SHORTCUT_NAMES.NEXT_STACK]: [altShift(KeyCodes.N)],
+  [SHORTCUT_NAMES.PREVIOUS_STACK]: [altShift(KeyCodes.B)],
+  [SHORTCUT_NAMES.GO_TO_DEFINITION]: [altShift(KeyCodes.G)],
+  [SHORTCUT_NAMES.FIND_USAGES]: [altShift(KeyCodes.U)],
+  [SHORTCUT_NAMES.NAME_BOOKMARK]: [altShift(KeyCodes.K)],
+  [SHORTCUT_NAMES.LIST_BOOKMARKS]: [altShift(KeyCodes.L)],
+  [SHORTCUT_NAMES.ZOOM_RESET]: [altShift(KeyCodes.ZERO)],
+  [SHORTCUT_NAMES.ZOOM_TO_STACK]: [altShift(KeyCodes.Z)],
+  [SHORTCUT_NAMES.GO_TO_BOOKMARK]: DIGIT_KEYS.map(altShift),
+  [SHORTCUT_NAMES.SET_BOOKMARK]: DIGIT_KEYS.map((key) =>
+    createSerializedKey(key, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+  ),
+  [SHORTCUT_NAMES.CREATE_WS_CURSOR]: [altShift(KeyCodes.W)],
+  [SHORTCUT_NAMES.MOVE_WS_CURSOR_UP]: [altShift(KeyCodes.UP)],
+  [SHORTCUT_NAMES.MOVE_WS_CURSOR_DOWN]: [altShift(KeyCodes.DOWN)],
+  [SHORTCUT_NAMES.MOVE_WS_CURSOR_LEFT]: [altShift(KeyCodes.LEFT)],
+  [SHORTCUT_NAMES.MOVE_WS_CURSOR_RIGHT]: [altShift(KeyCodes.RIGHT)],
+  ['start_move']: [altShift(KeyCodes.M)],
+  ['list_move_targets']: [altShift(KeyCodes.P)],
+  // Alt + Shift + arrows move the workspace cursor, so large moves keep only
+  // Ctrl + Shift.
+  ['move_left_unconstrained_large']: [
+    createSerializedKey(KeyCodes.LEFT, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+  ],
+  ['move_right_unconstrained_large']: [
+    createSerializedKey(KeyCodes.RIGHT, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+  ],
+  ['move_up_unconstrained_large']: [
+    createSerializedKey(KeyCodes.UP, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+  ],
+  ['move_down_unconstrained_large']: [
+    createSerializedKey(KeyCodes.DOWN, [KeyCodes.CTRL, KeyCodes.SHIFT]),
+  ],
+};
+
+/**
+ * Keys for switch interfaces, which usually send Space and Enter.
+ *
+ * Space steps to the next item, or the next connection while moving a block,
+ * and Enter alone edits, inserts and finishes moves. The action menu can also
+ * be opened with the context menu key, which switch interfaces can send
+ * without a modifier.
+ */
+const SINGLE_SWITCH: KeymapOverrides = {
+  [SHORTCUT_NAMES.DOWN]: [KeyCodes.DOWN, KeyCodes.SPACE],
+  [SHORTCUT_NAMES.EDIT_OR_CONFIRM]: [KeyCodes.ENTER],
+  [SHORTCUT_NAMES.MENU]: [
+    KeyCodes.CONTEXT_MENU,
+    createSerializedKey(KeyCodes.ENTER, [KeyCodes.CTRL]),
+    createSerializedKey(KeyCodes.ENTER, [KeyCodes.ALT]),
+    createSerializedKey(KeyCodes.ENTER, [KeyCodes.META]),
+  ],
+  ['move_down_constrained']: [KeyCodes.DOWN, KeyCodes.SPACE],
+  ['finish_move']: [KeyCodes.ENTER],
+};
+
+/**
+ * Vim-style keys: H, J, K and L move the cursor, and the block being moved,
+ * as well as the arrow keys.
+ *
+ * The bookmark menu moves from K to the quote key, which jumps to a mark in
+ * vim.
+ */
+const VIM: KeymapOverrides = {
+  [SHORTCUT_NAMES.LIST_BOOKMARKS]: [KeyCodes.SINGLE_QUOTE],
+  [SHORTCUT_NAMES.LEFT]: [KeyCodes.LEFT, KeyCodes.H],
+  [SHORTCUT_NAMES.DOWN]: [KeyCodes.DOWN, KeyCodes.J],
+  [SHORTCUT_NAMES.UP]: [KeyCodes.UP, KeyCodes.K],
+  [SHORTCUT_NAMES.RIGHT]: [KeyCodes.RIGHT, KeyCodes.L],
+  ['move_left_constrained']: [KeyCodes.LEFT, KeyCodes.H],
+  ['move_down_constrained']: [KeyCodes.DOWN, KeyCodes.J],
+  ['move_up_constrained']: [KeyCodes.UP, KeyCodes.K],
+  ['move_right_constrained']: [KeyCodes.RIGHT, KeyCodes.L],
+};
+
+/**
+ * The bundled keymap presets, by name.
+ *
+ * Like the default layout, a preset may bind a key to several shortcuts that
+ * are never available at the same time, such as moving the cursor and moving
+ * a block.
+ */
+export const KEYMAP_PRESETS: Record<KeymapPresetName, KeymapOverrides> = {
+  default: {},
+  screenReaderSafe: SCREEN_READER_SAFE,
+  singleSwitch: SINGLE_SWITCH,
+  vim: VIM,
+};
@@ -16,6 +16,15 @@ import {
   registrationName as cursorRegistrationName,
   registrationType as cursorRegistrationType,
 } from './flyout_cursor';
+import {WorkspaceCursorIndicator} from './workspace_cursor_indicator';
+import {NavigationHistory} from './navigation_history';
+import {BlockSelection} from './block_selection';
+import {
+  PastePlacement,
+  getParentConnection,
+  getPlacementConnections,
+  getPlacementTarget,
+} from './paste_placement';
 
 /**
  * Class that holds all methods necessary for keyboard navigation to work.
@@ -39,6 +48,24 @@ export class Navigation {
    */
   protected workspaces: Blockly.WorkspaceSvg[] = [];
 
+  /**
+   * Indicators for the free-movement cursor of each registered workspace.
+   */
+  protected workspaceCursorIndicators: Map<
+    Blockly.WorkspaceSvg,
+    WorkspaceCursorIndicator
+  > = new Map();
+
+  /**
+   * The positions the cursor has jumped from on each registered workspace.
+   */
+  protected history = new NavigationHistory();
+
+  /**
+   * The blocks selected on each registered workspace.
+   */
+  protected selection = new BlockSelection();
+
   /**
    * Constructor for keyboard navigation.
    */
@@ -58,6 +85,10 @@ export class Navigation {
     this.workspaces.push(workspace);
     const flyout = workspace.getFlyout();
     workspace.addChangeListener(this.wsChangeWrapper);
+    this.workspaceCursorIndicators.set(
+      workspace,
+      new WorkspaceCursorIndicator(workspace),
+    );
 
     if (flyout) {
       this.addFlyout(flyout);
@@ -78,6 +109,10 @@ export class Navigation {
       this.workspaces.splice(workspaceIdx, 1);
     }
     workspace.removeChangeListener(this.wsChangeWrapper);
+    this.workspaceCursorIndicators.get(workspace)?.dispose();
+    this.workspaceCursorIndicators.delete(workspace);
+    this.history.clear(workspace);
+    this.selection.clear(workspace);
 
     if (flyout) {
       this.removeFlyout(flyout);
@@ -359,6 +394,58 @@ export class Navigation {
     return true;
   }
 
+  /**
+   * Gets the history of positions the cursor has jumped from.
+   *
+   * @returns The navigation history.
+   */
+  getHistory(): NavigationHistory {
+    return this.history;
+  }
+
+  /**
+   * Gets the blocks selected for actions to apply to together.
+   *
+   * @returns The block selection.
+   */
+  getSelection(): BlockSelection {
+    return this.selection;
+  }
+
+  /**
+   * Gets the indicator for the free-movement cursor on the workspace.
+   *
+   * @param workspace The workspace to get the indicator for.
+   * @returns The indicator, or undefined if the workspace is not registered.
+   */
+  getWorkspaceCursorIndicator(
+    workspace: Blockly.WorkspaceSvg,
+  ): WorkspaceCursorIndicator | undefined {
+    return this.workspaceCursorIndicators.get(workspace);
+  }
+
+  /**
+   * Gets the location of the free-movement cursor if the workspace itself is
+   * the focused node in its tree, even if focus has since moved to another
+   * tree such as the flyout.
+   *
+   * This is the point where new top-level blocks should be placed.
+   *
+   * @param workspace The workspace to check.
+   * @returns The cursor location in workspace coordinates, or null if the
+   *     cursor is not on the workspace or has never been placed.
+   */
+  getWorkspaceCursorLocation(
+    workspace: Blockly.WorkspaceSvg,
+  ): Blockly.utils.Coordinate | null {
+    if (
+      Blockly.FocusableTreeTraverser.findFocusedNode(workspace) !== workspace
+    ) {
+      return null;
+    }
+    return this.getWorkspaceCursorIndicator(workspace)?.getLocation() ?? null;
+  }
+
   /**
    * Gets the cursor on the flyout's workspace.
    *
@@ -786,29 +873,84 @@ export class Navigation {
 
   /**
    * Pastes the copied block to the marked location if possible or
-   * onto the workspace otherwise.
+   * onto the workspace otherwise. If the cursor is on the workspace the
+   * block is pasted at the free-movement cursor location.
    *
    * @param copyData The data to paste into the workspace.
    * @param workspace The workspace to paste the data into.
+   * @param placement Where to put the block relative to the block at the
+   *     cursor, instead of guessing.
    * @returns True if the paste was sucessful, false otherwise.
    */
-  paste(copyData: Blockly.ICopyData, workspace: Blockly.WorkspaceSvg): boolean {
+  paste(
+    copyData: Blockly.ICopyData,
+    workspace: Blockly.WorkspaceSvg,
+    placement?: PastePlacement,
+  ): boolean {
     // Do this before clipoard.paste due to cursor/focus workaround in getCurNode.
     const targetNode = workspace.getCursor().getCurNode();
-
-    Blockly.Events.setGroup(true);
-    const block = Blockly.clipboard.paste(
-      copyData,
-      workspace,
-    ) as Blockly.BlockSvg;
-    if (block) {
-      if (targetNode) {
-        this.tryToConnectBlock(targetNode, block);
+    const location =
+      !placement || placement === 'newStack'
+        ? this.getWorkspaceCursorLocation(workspace) ?? undefined
+        : undefined;
+
+    const existingGroup = Blockly.Events.getGroup();
+    if (!existingGroup) Blockly.Events.setGroup(true);
+    try {
+      const pasted = Blockly.clipboard.paste(copyData, workspace, location);
+      if (pasted instanceof Blockly.BlockSvg && targetNode) {
+        if (!placement) {
+          this.tryToConnectBlock(targetNode, pasted);
+        } else if (placement !== 'newStack') {
+          const target = getPlacementTarget(targetNode);
+          if (target) this.placeBlock(pasted, target, placement);
+        }
       }
-      return true;
+      return !!pasted;
+    } finally {
+      Blockly.Events.setGroup(existingGroup);
     }
-    Blockly.Events.setGroup(false);
-    return false;
+  }
+
+  /**
+   * Connects a block relative to another block. Replacing a block deletes
+   * it, keeping the blocks below it.
+   *
+   * @param block The block to place.
+   * @param target The block it is placed relative to.
+   * @param placement Where it goes.
+   * @returns True if the block was placed, false otherwise.
+   */
+  placeBlock(
+    block: Blockly.BlockSvg,
+    target: Blockly.BlockSvg,
+    placement: Exclude<PastePlacement, 'newStack'>,
+  ): boolean {
+    if (placement !== 'replace') {
+      const connections = getPlacementConnections(block, target, placement);
+      return !!connections && this.moveAndConnect(...connections);
+    }
+
+    const parent = getParentConnection(target);
+    const connections = parent
+      ? getPlacementConnections(block, target, placement)
+      : null;
+    if (parent && !connections) return false;
+    const position = target.getRelativeToSurfaceXY();
+    const next = target.getNextBlock();
+    // Statement blocks are unplugged so the blocks below them are kept.
+    target.dispose(!target.outputConnection);
+    if (connections) return this.moveAndConnect(...connections);
+
+    const current = block.getRelativeToSurfaceXY();
+    block.moveBy(position.x - current.x, position.y - current.y);
+    if (next && !next.isDisposed()) {
+      this.moveAndConnect(
+        next.previousConnection,
+        block.lastConnectionInStack(false),
+      );
+    }
+    return true;
   }
 
   /**
@@ -32,9 +32,25 @@ import {EnterAction} from './actions/enter';
 import {DisconnectAction} from './actions/disconnect';
 import {ActionMenu} from './actions/action_menu';
 import {MoveActions} from './actions/move';
-import {COMMIT_MOVE_SHORTCUT, Mover} from './actions/mover';
+import {COMMIT_MOVE_SHORTCUT, Mover, MoveOptions} from './actions/mover';
 import {DuplicateAction} from './actions/duplicate';
 import {StackNavigationAction} from './actions/stack_navigation';
+import {FindAction} from './actions/find';
+import {ReplaceAction} from './actions/replace';
+import {HistoryAction} from './actions/history';
+import {BookmarkAction} from './actions/bookmarks';
+import {DefinitionAction} from './actions/definitions';
+import {SelectionAction} from './actions/selection';
+import {ReorderAction} from './actions/reorder';
+import {SurroundAction} from './actions/surround';
+import {ViewportAction} from './actions/viewport';
+import {Keymap} from './keymap';
+import {Announcer} from './announcer';
+import {
+  PasteCompatibilityName,
+  PasteCompatibilityPolicy,
+} from './paste_compatibility';
+import {InsertPaletteAction} from './actions/insert_palette';
 
 const KeyCodes = BlocklyUtils.KeyCodes;
 
@@ -44,44 +60,133 @@ const KeyCodes = BlocklyUtils.KeyCodes;
 export class NavigationController {
   private navigation: Navigation = new Navigation();
 
-  private mover = new Mover(this.navigation);
+  private mover = new Mover(
+    this.navigation,
+    this.announcer,
+    this.options.moveOptions,
+  );
 
   shortcutDialog: ShortcutDialog = new ShortcutDialog();
 
   /** Context menu and keyboard action for deletion. */
-  deleteAction: DeleteAction = new DeleteAction();
+  deleteAction: DeleteAction = new DeleteAction(
+    this.navigation,
+    this.announcer,
+  );
 
   /** Context menu and keyboard action for deletion. */
-  editAction: EditAction = new EditAction(this.navigation);
+  editAction: EditAction = new EditAction(this.navigation, this.announcer);
 
   /** Keyboard shortcut for disconnection. */
-  disconnectAction: DisconnectAction = new DisconnectAction(this.navigation);
+  disconnectAction: DisconnectAction = new DisconnectAction(
+    this.navigation,
+    this.announcer,
+  );
 
   clipboard: Clipboard;
 
-  duplicateAction = new DuplicateAction();
+  duplicateAction = new DuplicateAction(this.navigation, this.announcer);
 
-  workspaceMovement: WorkspaceMovement = new WorkspaceMovement(this.navigation);
+  workspaceMovement: WorkspaceMovement = new WorkspaceMovement(
+    this.navigation,
+    this.announcer,
+  );
 
   /** Keyboard navigation actions for the arrow keys. */
-  arrowNavigation: ArrowNavigation = new ArrowNavigation(this.navigation);
+  arrowNavigation: ArrowNavigation = new ArrowNavigation(
+    this.navigation,
+    this.announcer,
+  );
+
+  exitAction: ExitAction = new ExitAction(this.navigation, this.announcer);
 
-  exitAction: ExitAction = new ExitAction(this.navigation);
+  enterAction: EnterAction = new EnterAction(
+    this.mover,
+    this.navigation,
+    this.announcer,
+  );
 
-  enterAction: EnterAction = new EnterAction(this.mover, this.navigation);
+  /** Keyboard shortcut for finding and inserting blocks by typing. */
+  insertPaletteAction: InsertPaletteAction = new InsertPaletteAction(
+    this.navigation,
+    this.enterAction,
+    this.announcer,
+  );
 
-  actionMenu: ActionMenu = new ActionMenu(this.navigation);
+  actionMenu: ActionMenu = new ActionMenu(this.navigation, this.announcer);
 
   moveActions = new MoveActions(this.mover);
 
-  stackNavigationAction: StackNavigationAction = new StackNavigationAction();
+  stackNavigationAction: StackNavigationAction = new StackNavigationAction(
+    this.navigation,
+    this.announcer,
+  );
+
+  /** Keyboard shortcuts for finding blocks on the workspace. */
+  findAction: FindAction = new FindAction(this.navigation, this.announcer);
+
+  /** Keyboard shortcuts for replacing text in field values. */
+  replaceAction: ReplaceAction = new ReplaceAction(
+    this.navigation,
+    this.findAction,
+    this.announcer,
+  );
+
+  /** Keyboard shortcuts for going back and forward between jumps. */
+  historyAction: HistoryAction = new HistoryAction(
+    this.navigation,
+    this.announcer,
+  );
+
+  /** Keyboard shortcuts for bookmarking blocks and jumping to them. */
+  bookmarkAction: BookmarkAction = new BookmarkAction(
+    this.navigation,
+    this.announcer,
+  );
+
+  /** Keyboard shortcuts for going to definitions and usages. */
+  definitionAction: DefinitionAction = new DefinitionAction(
+    this.navigation,
+    this.announcer,
+  );
+
+  /** Keyboard shortcuts for selecting several blocks to act on together. */
+  selectionAction: SelectionAction = new SelectionAction(
+    this.navigation,
+    this.announcer,
+  );
+
+  /** Keyboard shortcuts for swapping statements with their neighbours. */
+  reorderAction: ReorderAction = new ReorderAction(
+    this.navigation,
+    this.announcer,
+  );
+
+  /** Keyboard shortcuts for wrapping statements in blocks and unwrapping them. */
+  surroundAction: SurroundAction = new SurroundAction(
+    this.navigation,
+    this.announcer,
+  );
+
+  /** Keyboard shortcuts for panning and zooming the workspace. */
+  viewportAction: ViewportAction = new ViewportAction(
+    this.navigation,
+    this.announcer,
+  );
 
   constructor(
-    private options: {allowCrossWorkspacePaste: boolean} = {
+    private options: {
+      allowCrossWorkspacePaste: boolean;
+      pasteCompatibility?: PasteCompatibilityName | PasteCompatibilityPolicy;
+      codeGenerator?: Blockly.CodeGenerator;
+      moveOptions?: MoveOptions;
+    } = {
       allowCrossWorkspacePaste: false,
     },
+    private announcer: Announcer = new Announcer(),
+    private keymap: Keymap = new Keymap(),
   ) {
-    this.clipboard = new Clipboard(this.navigation, options);
+    this.clipboard = new Clipboard(this.navigation, options, announcer);
   }
 
   /**
@@ -98,6 +203,7 @@ export class NavigationController {
   init() {
     this.addShortcutHandlers();
     this.registerDefaults();
+    this.keymap.apply();
   }
 
   /**
@@ -231,6 +337,7 @@ export class NavigationController {
         workspace.getTopBlocks(false).length > 0,
       callback: (workspace) => {
         workspace.cleanUp();
+        this.announcer.announce('Workspace cleaned up');
         return true;
       },
       keyCodes: [KeyCodes.C],
@@ -252,6 +359,7 @@ export class NavigationController {
     this.editAction.install();
     this.exitAction.install();
     this.enterAction.install();
+    this.insertPaletteAction.install();
     this.disconnectAction.install();
     this.actionMenu.install();
 
@@ -260,6 +368,15 @@ export class NavigationController {
     this.moveActions.install();
     this.shortcutDialog.install();
     this.stackNavigationAction.install();
+    this.findAction.install();
+    this.replaceAction.install();
+    this.historyAction.install();
+    this.bookmarkAction.install();
+    this.definitionAction.install();
+    this.selectionAction.install();
+    this.reorderAction.install();
+    this.surroundAction.install();
+    this.viewportAction.install();
 
     // Initialize the shortcut modal with available shortcuts.  Needs
     // to be done separately rather at construction, as many shortcuts
@@ -281,9 +398,19 @@ export class NavigationController {
     this.arrowNavigation.uninstall();
     this.exitAction.uninstall();
     this.enterAction.uninstall();
+    this.insertPaletteAction.uninstall();
     this.actionMenu.uninstall();
     this.shortcutDialog.uninstall();
     this.stackNavigationAction.uninstall();
+    this.findAction.uninstall();
+    this.replaceAction.uninstall();
+    this.historyAction.uninstall();
+    this.bookmarkAction.uninstall();
+    this.definitionAction.uninstall();
+    this.selectionAction.uninstall();
+    this.reorderAction.uninstall();
+    this.surroundAction.uninstall();
+    this.viewportAction.uninstall();
 
     // This should get unregistered when a move finishes,
     // but it's possible the controller is disposed mid-move.
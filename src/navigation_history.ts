@@ -0,0 +1,185 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  comments,
+  FocusableTreeTraverser,
+  IFocusableNode,
+  WorkspaceSvg,
+} from 'blockly/core';
+
+/** The maximum number of positions remembered in each direction. */
+const MAX_HISTORY_LENGTH = 50;
+
+/**
+ * The positions visited on one workspace.
+ */
+interface History {
+  /** Positions to go back to, most recent last. */
+  back: IFocusableNode[];
+  /** Positions to go forward to, most recent last. */
+  forward: IFocusableNode[];
+}
+
+/**
+ * Remembers where the cursor was before it jumped, so that the user can go
+ * back there, and forward again, the way a browser's history does.
+ *
+ * Each workspace has its own history. Positions on blocks or comments that
+ * have since been deleted are skipped.
+ */
+export class NavigationHistory {
+  private histories: Map<WorkspaceSvg, History> = new Map();
+
+  /**
+   * Records the position the cursor is jumping away from. This clears the
+   * forward history.
+   *
+   * @param workspace The workspace the cursor is on.
+   * @param node The position to remember. Defaults to the node in the
+   *     workspace that has focus.
+   */
+  record(
+    workspace: WorkspaceSvg,
+    node: IFocusableNode | null = FocusableTreeTraverser.findFocusedNode(
+      workspace,
+    ),
+  ) {
+    if (!node || !this.isValid(workspace, node)) return;
+    const history = this.getHistory(workspace);
+    history.forward.length = 0;
+    if (history.back[history.back.length - 1] === node) return;
+    history.back.push(node);
+    if (history.back.length > MAX_HISTORY_LENGTH) history.back.shift();
+  }
+
+  /**
+   * Moves the cursor to the most recently recorded position.
+   *
+   * @param workspace The workspace to move the cursor on.
+   * @returns The node moved to, or null if there is nowhere to go back to.
+   */
+  back(workspace: WorkspaceSvg): IFocusableNode | null {
+    const history = this.getHistory(workspace);
+    return this.go(workspace, history.back, history.forward);
+  }
+
+  /**
+   * Moves the cursor to the position it was at before the last time it went
+   * back.
+   *
+   * @param workspace The workspace to move the cursor on.
+   * @returns The node moved to, or null if there is nowhere to go forward to.
+   */
+  forward(workspace: WorkspaceSvg): IFocusableNode | null {
+    const history = this.getHistory(workspace);
+    return this.go(workspace, history.forward, history.back);
+  }
+
+  /**
+   * Returns whether there is a position to go back to.
+   *
+   * @param workspace The workspace to check.
+   * @returns True if back would move the cursor.
+   */
+  canGoBack(workspace: WorkspaceSvg): boolean {
+    return this.prune(workspace, this.getHistory(workspace).back).length > 0;
+  }
+
+  /**
+   * Returns whether there is a position to go forward to.
+   *
+   * @param workspace The workspace to check.
+   * @returns True if forward would move the cursor.
+   */
+  canGoForward(workspace: WorkspaceSvg): boolean {
+    return this.prune(workspace, this.getHistory(workspace).forward).length > 0;
+  }
+
+  /**
+   * Forgets all positions on a workspace.
+   *
+   * @param workspace The workspace to forget.
+   */
+  clear(workspace: WorkspaceSvg) {
+    this.histories.delete(workspace);
+  }
+
+  /**
+   * Moves the cursor to the last valid position in one list, and remembers
+   * the current position in the other.
+   *
+   * @param workspace The workspace to move the cursor on.
+   * @param from The positions to take the destination from.
+   * @param to The positions to add the current position to.
+   * @returns The node moved to, or null if there were no valid positions.
+   */
+  private go(
+    workspace: WorkspaceSvg,
+    from: IFocusableNode[],
+    to: IFocusableNode[],
+  ): IFocusableNode | null {
+    const current = FocusableTreeTraverser.findFocusedNode(workspace);
+    this.prune(workspace, from);
+    let target = from.pop() ?? null;
+    // Skip over the position the cursor is already on.
+    if (target && target === current) target = from.pop() ?? null;
+    if (!target) return null;
+
+    if (current && current !== to[to.length - 1]) {
+      to.push(current);
+    }
+    workspace.getCursor().setCurNode(target);
+    return target;
+  }
+
+  /**
+   * Removes positions that are no longer on the workspace.
+   *
+   * @param workspace The workspace the positions were recorded on.
+   * @param nodes The positions to check. Modified in place.
+   * @returns The same list of positions.
+   */
+  private prune(
+    workspace: WorkspaceSvg,
+    nodes: IFocusableNode[],
+  ): IFocusableNode[] {
+    const valid = nodes.filter((node) => this.isValid(workspace, node));
+    nodes.splice(0, nodes.length, ...valid);
+    return nodes;
+  }
+
+  /**
+   * Returns whether the cursor can still be moved to a position.
+   *
+   * @param workspace The workspace the position was recorded on.
+   * @param node The position to check.
+   * @returns False if the node has been disposed or is not on the workspace.
+   */
+  private isValid(workspace: WorkspaceSvg, node: IFocusableNode): boolean {
+    if (node instanceof WorkspaceSvg) return node === workspace;
+    if (node instanceof comments.RenderedWorkspaceComment) {
+      return !node.isDeadOrDying() && node.workspace === workspace;
+    }
+    const block = workspace.getCursor().getSourceBlockFromNode(node);
+    return !!block && !block.disposed && block.workspace === workspace;
+  }
+
+  /**
+   * Returns the history for a workspace, creating it if necessary.
+   *
+   * @param workspace The workspace to get the history for.
+   * @returns The workspace's history.
+   */
+  private getHistory(workspace: WorkspaceSvg): History {
+    let history = this.histories.get(workspace);
+    if (!history) {
+      history = {back: [], forward: []};
+      this.histories.set(workspace, history);
+    }
+    return history;
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly/core';
+import {BlockDescriber, getInputName} from './block_describer';
+
+/**
+ * An entry in the outline.
+ */
+interface OutlineItem {
+  /** Identifies the entry across rebuilds of the outline. */
+  key: string;
+  /** The tree item element. */
+  element: HTMLLIElement;
+  /** The node on the workspace that the entry stands for. */
+  node: Blockly.IFocusableNode;
+  /** The entry this one is nested in, if any. */
+  parent: OutlineItem | null;
+  /** The group holding the entries nested in this one, if there are any. */
+  group: HTMLUListElement | null;
+}
+
+/**
+ * An HTML tree that mirrors the workspace: stacks, then the blocks in them,
+ * then the fields and inputs of each block.
+ *
+ * Screen readers handle a native tree widget better than the SVG canvas, so
+ * this lets users browse the structure of the program here and edit it on the
+ * workspace. The item with focus in the tree and the workspace cursor follow
+ * each other, and pressing Enter on an item moves focus to the workspace.
+ */
+export class OutlineView {
+  /** The root element of the tree. */
+  private tree: HTMLUListElement;
+
+  /** Every entry, in document order. */
+  private items: OutlineItem[] = [];
+
+  /** Entries keyed by their tree item element. */
+  private itemsByElement: Map<Element, OutlineItem> = new Map();
+
+  /** Entries keyed by the workspace node they stand for. */
+  private itemsByNode: Map<Blockly.IFocusableNode, OutlineItem> = new Map();
+
+  /**
+   * Entries that have been expanded or collapsed, by key. Stacks start out
+   * expanded and everything else collapsed.
+   */
+  private expanded: Map<string, boolean> = new Map();
+
+  /** The entry that can be tabbed to, which follows the workspace cursor. */
+  private current: OutlineItem | null = null;
+
+  /** Whether the tree is moving the workspace cursor. */
+  private syncing = false;
+
+  /** The pending rebuild after a burst of workspace changes, if any. */
+  private pendingRender: ReturnType<typeof setTimeout> | null = null;
+
+  /** Wrapper for method that deals with workspace changes. */
+  private wsChangeWrapper: (e: Blockly.Events.Abstract) => void;
+
+  /** Wrapper for method that deals with focus moving on the workspace. */
+  private canvasFocusWrapper: (e: FocusEvent) => void;
+
+  /**
+   * Creates an outline of a workspace and adds it to the page.
+   *
+   * @param workspace The workspace to mirror.
+   * @param container The element to add the outline to.
+   * @param describer Used to name blocks.
+   */
+  constructor(
+    private workspace: Blockly.WorkspaceSvg,
+    container: HTMLElement,
+    private describer: BlockDescriber = new BlockDescriber(),
+  ) {
+    this.wsChangeWrapper = this.workspaceChangeListener.bind(this);
+    this.canvasFocusWrapper = this.onCanvasFocus.bind(this);
+
+    this.tree = document.createElement('ul');
+    this.tree.className = 'blocklyOutline';
+    this.tree.setAttribute('role', 'tree');
+    this.tree.setAttribute('aria-label', 'Program outline');
+    this.tree.addEventListener('keydown', (e) => this.onKeyDown(e));
+    this.tree.addEventListener('focusin', (e) => this.onItemFocus(e));
+    container.appendChild(this.tree);
+
+    workspace.addChangeListener(this.wsChangeWrapper);
+    workspace
+      .getParentSvg()
+      .addEventListener('focusin', this.canvasFocusWrapper);
+    this.render();
+  }
+
+  /**
+   * Removes the outline from the page and stops following the workspace.
+   */
+  dispose() {
+    if (this.pendingRender) clearTimeout(this.pendingRender);
+    this.pendingRender = null;
+    this.workspace.removeChangeListener(this.wsChangeWrapper);
+    this.workspace
+      .getParentSvg()
+      .removeEventListener('focusin', this.canvasFocusWrapper);
+    this.tree.remove();
+    this.items = [];
+    this.itemsByElement.clear();
+    this.itemsByNode.clear();
+    this.current = null;
+  }
+
+  /**
+   * Rebuilds the outline from the workspace, keeping the same entries
+   * expanded and the same entry current where they still exist.
+   */
+  render() {
+    const hadFocus = this.tree.contains(document.activeElement);
+    const currentKey = this.current?.key;
+    this.items = [];
+    this.itemsByElement.clear();
+    this.itemsByNode.clear();
+    this.tree.replaceChildren();
+
+    const roots = this.workspace
+      .getTopBlocks(true)
+      .filter((block) => !block.isInsertionMarker());
+    roots.forEach((root, i) => {
+      const stack = this.addItem(
+        null,
+        `stack:${root.id}`,
+        `Stack ${i + 1}`,
+        root,
+      );
+      this.addStatements(stack, root);
+    });
+    for (const item of this.items) this.updateExpanded(item);
+
+    const current =
+      this.items.find((item) => item.key === currentKey) ??
+      this.items[0] ??
+      null;
+    this.setCurrent(current);
+    if (hadFocus && current) {
+      // The cursor is already there, so only DOM focus needs restoring.
+      this.syncing = true;
+      current.element.focus();
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Rebuilds the outline when blocks change. Events are fired in bursts, for
+   * example when a workspace is loaded, so the outline is rebuilt once after
+   * each burst rather than for every event.
+   *
+   * @param e The Blockly event to process.
+   */
+  private workspaceChangeListener(e: Blockly.Events.Abstract) {
+    if (e.isUiEvent || e.workspaceId !== this.workspace.id) return;
+    if (this.pendingRender) return;
+    this.pendingRender = setTimeout(() => {
+      this.pendingRender = null;
+      this.render();
+    }, 0);
+  }
+
+  /**
+   * Makes the entry for a node that gains focus on the workspace current, so
+   * that the tree opens at the workspace cursor.
+   *
+   * @param e The focus event from the workspace.
+   */
+  private onCanvasFocus(e: FocusEvent) {
+    if (this.syncing || !(e.target instanceof Element)) return;
+    const node = this.workspace.lookUpFocusableNode(e.target.id);
+    const item = node ? this.itemsByNode.get(node) : undefined;
+    if (!item) return;
+    for (let parent = item.parent; parent; parent = parent.parent) {
+      this.expanded.set(parent.key, true);
+      this.updateExpanded(parent);
+    }
+    this.setCurrent(item);
+    item.element.scrollIntoView?.({block: 'nearest'});
+  }
+
+  /**
+   * Moves the workspace cursor to the node for an entry that gains focus in
+   * the tree, leaving DOM focus in the tree.
+   *
+   * @param e The focus event from the tree.
+   */
+  private onItemFocus(e: FocusEvent) {
+    const item =
+      e.target instanceof Element && this.itemsByElement.get(e.target);
+    if (!item) return;
+    this.setCurrent(item);
+    if (this.syncing || Blockly.getFocusManager().ephemeralFocusTaken()) {
+      return;
+    }
+    this.syncing = true;
+    try {
+      this.workspace.getCursor().setCurNode(item.node);
+      item.element.focus();
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Handles keys pressed in the tree, following the usual keyboard
+   * interaction for tree views.
+   *
+   * @param e The keyboard event.
+   */
+  private onKeyDown(e: KeyboardEvent) {
+    const item = this.current;
+    if (!item) return;
+    const visible = this.items.filter((entry) => this.isShown(entry));
+    const index = visible.indexOf(item);
+    let target: OutlineItem | null = null;
+    switch (e.key) {
+      case 'ArrowDown':
+        target = visible[index + 1] ?? null;
+        break;
+      case 'ArrowUp':
+        target = visible[index - 1] ?? null;
+        break;
+      case 'Home':
+        target = visible[0] ?? null;
+        break;
+      case 'End':
+        target = visible[visible.length - 1] ?? null;
+        break;
+      case 'ArrowRight':
+        if (!item.group) break;
+        if (this.isExpanded(item)) {
+          target = this.items[this.items.indexOf(item) + 1] ?? null;
+        } else {
+          this.expanded.set(item.key, true);
+          this.updateExpanded(item);
+        }
+        break;
+      case 'ArrowLeft':
+        if (item.group && this.isExpanded(item)) {
+          this.expanded.set(item.key, false);
+          this.updateExpanded(item);
+        } else {
+          target = item.parent;
+        }
+        break;
+      case 'Enter':
+        this.workspace.getCursor().setCurNode(item.node);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    target?.element.focus();
+  }
+
+  /**
+   * Adds an entry for each block in a list of statements.
+   *
+   * @param parent The entry to add them to.
+   * @param first The first statement, if any.
+   */
+  private addStatements(parent: OutlineItem, first: Blockly.BlockSvg | null) {
+    for (let block = first; block; block = block.getNextBlock()) {
+      this.addBlock(parent, block);
+    }
+  }
+
+  /**
+   * Adds an entry for a block, and entries for its fields and inputs and the
+   * blocks attached to them.
+   *
+   * @param parent The entry to add it to.
+   * @param block The block.
+   */
+  private addBlock(parent: OutlineItem, block: Blockly.BlockSvg) {
+    if (block.isInsertionMarker()) return;
+    const item = this.addItem(
+      parent,
+      `block:${block.id}`,
+      this.describer.getBlockLabel(block),
+      block,
+    );
+    let fieldIndex = 0;
+    for (const input of block.inputList) {
+      if (!input.isVisible()) continue;
+      for (const field of input.fieldRow) {
+        fieldIndex++;
+        if (!isNavigableField(field)) continue;
+        this.addItem(
+          item,
+          `field:${block.id}:${fieldIndex}`,
+          `${field.getText() || 'empty'} field`,
+          field,
+        );
+      }
+
+      const connection = input.connection as Blockly.RenderedConnection | null;
+      if (!connection) continue;
+      const target = connection.targetBlock();
+      const inputItem = this.addItem(
+        item,
+        `input:${block.id}:${input.name}`,
+        `${getInputName(input)} input${target ? '' : ', empty'}`,
+        connection,
+      );
+      if (input.type === Blockly.inputs.inputTypes.STATEMENT) {
+        this.addStatements(inputItem, target);
+      } else if (target) {
+        this.addBlock(inputItem, target);
+      }
+    }
+  }
+
+  /**
+   * Creates an entry and adds it to the tree.
+   *
+   * @param parent The entry to nest it in, or null for a top-level entry.
+   * @param key Identifies the entry across rebuilds.
+   * @param label The text of the entry.
+   * @param node The workspace node the entry stands for.
+   * @returns The new entry.
+   */
+  private addItem(
+    parent: OutlineItem | null,
+    key: string,
+    label: string,
+    node: Blockly.IFocusableNode,
+  ): OutlineItem {
+    const element = document.createElement('li');
+    element.className = 'blocklyOutlineItem';
+    element.setAttribute('role', 'treeitem');
+    element.setAttribute('aria-label', label);
+    element.tabIndex = -1;
+    const text = document.createElement('span');
+    text.className = 'blocklyOutlineLabel';
+    text.textContent = label;
+    element.appendChild(text);
+
+    if (parent && !parent.group) {
+      parent.group = document.createElement('ul');
+      parent.group.setAttribute('role', 'group');
+      parent.element.appendChild(parent.group);
+    }
+    (parent?.group ?? this.tree).appendChild(element);
+
+    const item = {key, element, node, parent, group: null};
+    this.items.push(item);
+    this.itemsByElement.set(element, item);
+    // A stack and its top block stand for the same node. The block's entry
+    // is added later and wins.
+    this.itemsByNode.set(node, item);
+    return item;
+  }
+
+  /**
+   * Makes an entry the one that can be tabbed to.
+   *
+   * @param item The entry, or null if the tree is empty.
+   */
+  private setCurrent(item: OutlineItem | null) {
+    if (this.current) {
+      this.current.element.tabIndex = -1;
+      this.current.element.classList.remove('blocklyOutlineCurrent');
+    }
+    this.current = item;
+    if (item) {
+      item.element.tabIndex = 0;
+      item.element.classList.add('blocklyOutlineCurrent');
+    }
+  }
+
+  /**
+   * Shows or hides the entries nested in an entry.
+   *
+   * @param item The entry.
+   */
+  private updateExpanded(item: OutlineItem) {
+    if (!item.group) return;
+    const expanded = this.isExpanded(item);
+    item.element.setAttribute('aria-expanded', `${expanded}`);
+    item.group.hidden = !expanded;
+  }
+
+  /**
+   * Returns whether the entries nested in an entry are shown.
+   *
+   * @param item The entry.
+   * @returns True if the entry is expanded.
+   */
+  private isExpanded(item: OutlineItem): boolean {
+    return this.expanded.get(item.key) ?? !item.parent;
+  }
+
+  /**
+   * Returns whether an entry is shown, because every entry it is nested in
+   * is expanded.
+   *
+   * @param item The entry.
+   * @returns True if the entry is shown.
+   */
+  private isShown(item: OutlineItem): boolean {
+    for (let parent = item.parent; parent; parent = parent.parent) {
+      if (!this.isExpanded(parent)) return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Returns whether the workspace cursor can go to a field, in which case it
+ * is listed in the outline.
+ *
+ * @param field The field to check.
+ * @returns True if the field is navigable.
+ */
+function isNavigableField(field: Blockly.Field): boolean {
+  return (
+    field.canBeFocused() &&
+    field.isVisible() &&
+    (field.isClickable() || field.isCurrentlyEditable()) &&
+    !(field.getSourceBlock()?.isSimpleReporter() && field.isFullBlockField())
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Blocks,
+  ICopyData,
+  Names,
+  WorkspaceSvg,
+  clipboard,
+  serialization,
+} from 'blockly/core';
+import {getToolboxBlocks} from './actions/insert_palette';
+
+/**
+ * Decides whether something copied from one workspace can be pasted into
+ * another.
+ *
+ * @param data The copied data.
+ * @param source The workspace it was copied from, if known.
+ * @param target The workspace to paste into.
+ * @returns Null if the paste is allowed, otherwise a short explanation of
+ *     why not, which is shown next to the disabled menu item.
+ */
+export type PasteCompatibilityPolicy = (
+  data: ICopyData,
+  source: WorkspaceSvg | null,
+  target: WorkspaceSvg,
+) => string | null;
+
+/**
+ * Only allows pasting into the workspace that was copied from, or the
+ * workspace of the flyout that was copied from.
+ *
+ * @param data The copied data.
+ * @param source The workspace it was copied from, if known.
+ * @param target The workspace to paste into.
+ * @returns Null if the paste is allowed, otherwise why not.
+ */
+const sameWorkspacePolicy: PasteCompatibilityPolicy = (data, source, target) =>
+  isSameWorkspace(source, target) ? null : 'Copied from another workspace';
+
+/**
+ * Allows pasting anything anywhere.
+ *
+ * @returns Null, since the paste is always allowed.
+ */
+const anyWorkspacePolicy: PasteCompatibilityPolicy = () => null;
+
+/**
+ * Allows pasting blocks into another workspace if that workspace offers every
+ * type of block in them, and its variables with the same names have the same
+ * types.
+ *
+ * A workspace with a toolbox offers the blocks in its toolbox, including
+ * dynamic categories, and the blocks already on it. A workspace without a
+ * toolbox offers every defined block type.
+ *
+ * @param data The copied data.
+ * @param source The workspace it was copied from, if known.
+ * @param target The workspace to paste into.
+ * @returns Null if the paste is allowed, otherwise why not.
+ */
+const compatibleBlocksPolicy: PasteCompatibilityPolicy = (
+  data,
+  source,
+  target,
+) => {
+  if (isSameWorkspace(source, target)) return null;
+  if (data.paster !== clipboard.BlockPaster.TYPE) return null;
+  const blockData = data as clipboard.BlockCopyData;
+
+  const available = getAvailableTypes(target);
+  const missing = Object.keys(blockData.typeCounts).filter(
+    (type) => !available.has(type),
+  );
+  if (missing.length) {
+    const plural = missing.length > 1;
+    return (
+      `Block type${plural ? 's' : ''} ` +
+      `${missing.map((type) => `'${type}'`).join(', ')} ` +
+      `${plural ? "aren't" : "isn't"} available in this workspace`
+    );
+  }
+
+  for (const {name, type} of getVariableStates(blockData.blockState)) {
+    const existing = target
+      .getVariableMap()
+      .getAllVariables()
+      .find((variable) => Names.equals(variable.getName(), name));
+    if (existing && existing.getType() !== type) {
+      return `Variable '${name}' has a different type in this workspace`;
+    }
+  }
+  return null;
+};
+
+/**
+ * The names of the bundled paste compatibility policies.
+ */
+export type PasteCompatibilityName =
+  | 'sameWorkspace'
+  | 'anyWorkspace'
+  | 'compatibleBlocks';
+
+/**
+ * The bundled paste compatibility policies, by name.
+ */
+export const PASTE_COMPATIBILITY_POLICIES: Record<
+  PasteCompatibilityName,
+  PasteCompatibilityPolicy
+> = {
+  sameWorkspace: sameWorkspacePolicy,
+  anyWorkspace: anyWorkspacePolicy,
+  compatibleBlocks: compatibleBlocksPolicy,
+};
+
+/**
+ * Returns whether pasting into a workspace is pasting back where the data
+ * was copied from.
+ *
+ * @param source The workspace it was copied from, if known.
+ * @param target The workspace to paste into.
+ * @returns True if the target is the source, or the source's flyout's
+ *     workspace.
+ */
+function isSameWorkspace(
+  source: WorkspaceSvg | null,
+  target: WorkspaceSvg,
+): boolean {
+  return (source?.isFlyout ? source.targetWorkspace : source) === target;
+}
+
+/**
+ * Returns the types of block a workspace offers.
+ *
+ * @param workspace The workspace.
+ * @returns The block types.
+ */
+function getAvailableTypes(workspace: WorkspaceSvg): Set<string> {
+  if (!workspace.options.languageTree) return new Set(Object.keys(Blocks));
+  return new Set([
+    ...getToolboxBlocks(workspace).map((item) => item.type),
+    ...workspace.getAllBlocks(false).map((block) => block.type),
+  ]);
+}
+
+/**
+ * Lists the variables referred to by the fields of a serialized block and
+ * the blocks attached to it.
+ *
+ * Variable fields are serialized as objects with the variable's name and,
+ * unless it is the default, its type.
+ *
+ * @param state The serialized block.
+ * @returns The names and types of the variables.
+ */
+function getVariableStates(
+  state: serialization.blocks.State,
+): Array<{name: string; type: string}> {
+  const variables = [];
+  for (const value of Object.values(state.fields ?? {})) {
+    if (value && typeof value === 'object' && typeof value.name === 'string') {
+      variables.push({
+        name: value.name as string,
+        type: typeof value.type === 'string' ? value.type : '',
+      });
+    }
+  }
+  const connections = [...Object.values(state.inputs ?? {}), state.next];
+  for (const connection of connections) {
+    for (const child of [connection?.shadow, connection?.block]) {
+      if (child) variables.push(...getVariableStates(child));
+    }
+  }
+  return variables;
+}
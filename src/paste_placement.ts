@@ -0,0 +1,215 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BlockSvg,
+  ConnectionType,
+  Events,
+  Field,
+  ICopyData,
+  IFocusableNode,
+  RenderedConnection,
+  clipboard,
+  serialization,
+} from 'blockly/core';
+
+/**
+ * Where a pasted block goes, relative to the focused block:
+ *
+ * - `before`: above it, between it and the block it is attached to.
+ * - `after`: below it, between it and the block attached to it.
+ * - `inside`: into its first input that accepts the pasted block.
+ * - `replace`: in its place, deleting it.
+ * - `newStack`: on its own, as a new top-level stack.
+ */
+export type PastePlacement =
+  | 'before'
+  | 'after'
+  | 'inside'
+  | 'replace'
+  | 'newStack';
+
+/** Every placement, in the order they are offered. */
+export const PASTE_PLACEMENTS: readonly PastePlacement[] = [
+  'before',
+  'after',
+  'inside',
+  'replace',
+  'newStack',
+];
+
+/**
+ * Returns the block that a paste is placed relative to.
+ *
+ * @param node The node the cursor is on.
+ * @returns The block, or the block the field or connection belongs to, or
+ *     null if the cursor isn't on a block.
+ */
+export function getPlacementTarget(
+  node: IFocusableNode | null,
+): BlockSvg | null {
+  if (node instanceof BlockSvg) return node;
+  if (node instanceof Field || node instanceof RenderedConnection) {
+    const block = node.getSourceBlock();
+    return block instanceof BlockSvg ? block : null;
+  }
+  return null;
+}
+
+/**
+ * Returns the placements that the connection checker allows for pasting
+ * copied data relative to a block.
+ *
+ * The copied blocks are briefly added to the workspace, without firing
+ * events, so their connections can be checked. Any variables they create
+ * are removed again afterwards.
+ *
+ * @param data The data that would be pasted.
+ * @param target The block the paste is placed relative to, if any.
+ * @returns The allowed placements, in the order they are offered.
+ */
+export function getAllowedPlacements(
+  data: ICopyData,
+  target: BlockSvg | null,
+): PastePlacement[] {
+  if (!target || data.paster !== clipboard.BlockPaster.TYPE) {
+    return ['newStack'];
+  }
+  const variableMap = target.workspace.getVariableMap();
+  const existing = new Set(
+    variableMap.getAllVariables().map((variable) => variable.getId()),
+  );
+  Events.disable();
+  let probe: BlockSvg | null = null;
+  try {
+    probe = serialization.blocks.append(
+      (data as clipboard.BlockCopyData).blockState,
+      target.workspace,
+      {recordUndo: false},
+    ) as BlockSvg;
+    const block = probe;
+    return PASTE_PLACEMENTS.filter((placement) =>
+      canPlace(block, target, placement),
+    );
+  } finally {
+    probe?.dispose(false);
+    for (const variable of variableMap.getAllVariables()) {
+      if (!existing.has(variable.getId())) variableMap.deleteVariable(variable);
+    }
+    Events.enable();
+  }
+}
+
+/**
+ * Returns whether a block can be placed relative to another block.
+ *
+ * @param block The block being placed.
+ * @param target The block it is placed relative to.
+ * @param placement Where it goes.
+ * @returns True if the connection checker allows it.
+ */
+export function canPlace(
+  block: BlockSvg,
+  target: BlockSvg,
+  placement: PastePlacement,
+): boolean {
+  if (placement === 'newStack') return true;
+  if (target.isShadow()) return false;
+  if (placement === 'replace') {
+    if (!target.isDeletable()) return false;
+    // A top-level block can be replaced by anything.
+    if (!getParentConnection(target)) return true;
+  }
+  return !!getPlacementConnections(block, target, placement);
+}
+
+/**
+ * Returns the connections that join a block to another block for a
+ * placement.
+ *
+ * @param block The block being placed.
+ * @param target The block it is placed relative to.
+ * @param placement Where it goes.
+ * @returns The connection on the block being placed and the connection it
+ *     connects to, or null if the placement doesn't join the blocks or the
+ *     connection checker doesn't allow it.
+ */
+export function getPlacementConnections(
+  block: BlockSvg,
+  target: BlockSvg,
+  placement: PastePlacement,
+): [RenderedConnection, RenderedConnection] | null {
+  const checker = block.workspace.connectionChecker;
+  const check = (
+    moving: RenderedConnection | null,
+    dest: RenderedConnection | null,
+  ): [RenderedConnection, RenderedConnection] | null =>
+    moving && dest && checker.canConnect(moving, dest, false)
+      ? [moving, dest]
+      : null;
+
+  switch (placement) {
+    case 'before': {
+      const last = block.lastConnectionInStack(false);
+      if (!last || !check(last, target.previousConnection)) return null;
+      const parent = target.previousConnection?.targetConnection ?? null;
+      return parent
+        ? check(block.previousConnection, parent)
+        : [last, target.previousConnection];
+    }
+    case 'after':
+      return check(block.previousConnection, target.nextConnection);
+    case 'inside':
+      for (const input of target.inputList) {
+        let connection = input.connection as RenderedConnection | null;
+        if (!connection || !input.isVisible()) continue;
+        if (connection.type === ConnectionType.INPUT_VALUE) {
+          // Don't push out a block that is already there.
+          const existing = connection.targetBlock();
+          if (existing && !existing.isShadow()) continue;
+          const connections = check(block.outputConnection, connection);
+          if (connections) return connections;
+          continue;
+        }
+        // Add to the end of a statement input.
+        while (connection.targetBlock()?.nextConnection) {
+          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+          connection = connection.targetBlock()!.nextConnection!;
+        }
+        const connections = check(block.previousConnection, connection);
+        if (connections) return connections;
+      }
+      return null;
+    case 'replace': {
+      const parent = getParentConnection(target);
+      if (!parent) return null;
+      return check(
+        parent.type === ConnectionType.INPUT_VALUE
+          ? block.outputConnection
+          : block.previousConnection,
+        parent,
+      );
+    }
+    case 'newStack':
+      return null;
+  }
+}
+
+/**
+ * Returns the connection that a block is attached to.
+ *
+ * @param block The block.
+ * @returns The connection on its parent, or null if it is top-level.
+ */
+export function getParentConnection(
+  block: BlockSvg,
+): RenderedConnection | null {
+  return (
+    block.outputConnection?.targetConnection ??
+    block.previousConnection?.targetConnection ??
+    null
+  );
+}
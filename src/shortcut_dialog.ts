@@ -76,7 +76,9 @@ export class ShortcutDialog {
       if (this.shortcutDialog.hasAttribute('open')) {
         this.shortcutDialog.close();
       } else {
-        this.shortcutDialog.showModal();
+        // Keys may have been changed since the list was created.
+        this.createModalContent();
+        this.shortcutDialog?.showModal();
       }
     }
   }
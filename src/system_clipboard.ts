@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly/core';
+
+/**
+ * Returns the text put on the system clipboard for something that was copied:
+ * the JSON serialization of a block, as saved by
+ * `Blockly.serialization.blocks.save`.
+ *
+ * @param data The copied data.
+ * @returns The text, or null if the data isn't a block.
+ */
+export function copyDataToText(data: Blockly.ICopyData): string | null {
+  if (data.paster !== Blockly.clipboard.BlockPaster.TYPE) return null;
+  return JSON.stringify((data as Blockly.clipboard.BlockCopyData).blockState);
+}
+
+/**
+ * Returns whether text from the system clipboard looks like it is meant to
+ * be block JSON, rather than ordinary text.
+ *
+ * @param text The text.
+ * @returns True if the text is a JSON object.
+ */
+export function looksLikeBlockText(text: string): boolean {
+  return text.trim().startsWith('{');
+}
+
+/**
+ * Turns block JSON from the system clipboard into data that can be pasted,
+ * checking that every block in it is of a type that is defined.
+ *
+ * @param text The JSON serialization of a block.
+ * @returns The data to paste.
+ * @throws Error describing what is wrong with the text, if it isn't a
+ *     block that can be pasted.
+ */
+export function textToCopyData(text: string): Blockly.clipboard.BlockCopyData {
+  let state: unknown;
+  try {
+    state = JSON.parse(text);
+  } catch {
+    throw new Error("The clipboard doesn't contain valid block JSON.");
+  }
+  if (!isBlockState(state)) {
+    throw new Error("The JSON on the clipboard isn't a block.");
+  }
+  const typeCounts: {[type: string]: number} = {};
+  countTypes(state, typeCounts);
+  const unknown = Object.keys(typeCounts).filter(
+    (type) => !Blockly.Blocks[type],
+  );
+  if (unknown.length) {
+    throw new Error(
+      `Can't paste unknown block type${unknown.length === 1 ? '' : 's'} ` +
+        unknown.map((type) => `'${type}'`).join(', '),
+    );
+  }
+  return {
+    paster: Blockly.clipboard.BlockPaster.TYPE,
+    blockState: state,
+    typeCounts,
+  };
+}
+
+/**
+ * Returns whether a value is shaped like the serialization of a block.
+ *
+ * @param value The value to check.
+ * @returns True if it is an object with a block type.
+ */
+function isBlockState(
+  value: unknown,
+): value is Blockly.serialization.blocks.State {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof (value as {type?: unknown}).type === 'string'
+  );
+}
+
+/**
+ * Counts the blocks of each type in a serialized block and the blocks
+ * attached to it.
+ *
+ * @param state The serialized block.
+ * @param typeCounts The counts to add to, by block type.
+ * @throws Error if an attached block isn't shaped like a block.
+ */
+function countTypes(
+  state: Blockly.serialization.blocks.State,
+  typeCounts: {[type: string]: number},
+) {
+  typeCounts[state.type] = (typeCounts[state.type] ?? 0) + 1;
+  const connections = [...Object.values(state.inputs ?? {}), state.next];
+  for (const connection of connections) {
+    if (!connection) continue;
+    for (const child of [connection.shadow, connection.block]) {
+      if (child === undefined) continue;
+      if (!isBlockState(child)) {
+        throw new Error("The JSON on the clipboard isn't a block.");
+      }
+      countTypes(child, typeCounts);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly/core';
+
+/**
+ * The size of the crosshair drawn by the indicator, in workspace units.
+ */
+const INDICATOR_SIZE = 12;
+
+/**
+ * Crosshair marker that shows where the free-movement workspace cursor is.
+ *
+ * The marker is only displayed (via CSS) while the workspace itself has
+ * active focus, i.e. when the Shift+WASD shortcuts move it.
+ */
+export class WorkspaceCursorIndicator {
+  /**
+   * Root SVG element for this indicator.
+   */
+  private svgRoot: SVGGElement;
+
+  /**
+   * The location of the cursor in workspace coordinates, or null if it has
+   * not been placed yet.
+   */
+  private location: Blockly.utils.Coordinate | null = null;
+
+  /**
+   * Creates a new workspace cursor indicator.
+   *
+   * @param workspace The workspace the indicator is shown on.
+   */
+  constructor(private workspace: Blockly.WorkspaceSvg) {
+    this.svgRoot = Blockly.utils.dom.createSvgElement(
+      Blockly.utils.Svg.G,
+      {'class': 'blocklyWorkspaceCursor'},
+      workspace.getBubbleCanvas(),
+    );
+    const half = INDICATOR_SIZE / 2;
+    Blockly.utils.dom.createSvgElement(
+      Blockly.utils.Svg.CIRCLE,
+      {'fill': 'none', 'r': half},
+      this.svgRoot,
+    );
+    Blockly.utils.dom.createSvgElement(
+      Blockly.utils.Svg.PATH,
+      {
+        'fill': 'none',
+        'd': `M${-INDICATOR_SIZE} 0h${INDICATOR_SIZE * 2}M0 ${-INDICATOR_SIZE}v${INDICATOR_SIZE * 2}`,
+      },
+      this.svgRoot,
+    );
+  }
+
+  /**
+   * Returns the location of the cursor.
+   *
+   * @returns The location in workspace coordinates, or null if the cursor has
+   *     never been placed.
+   */
+  getLocation(): Blockly.utils.Coordinate | null {
+    return this.location?.clone() ?? null;
+  }
+
+  /**
+   * Returns the area covered by the indicator, for scrolling into view.
+   *
+   * @returns The bounds in workspace coordinates, or null if the cursor has
+   *     never been placed.
+   */
+  getBoundingRectangle(): Blockly.utils.Rect | null {
+    if (!this.location) return null;
+    const {x, y} = this.location;
+    return new Blockly.utils.Rect(
+      y - INDICATOR_SIZE,
+      y + INDICATOR_SIZE,
+      x - INDICATOR_SIZE,
+      x + INDICATOR_SIZE,
+    );
+  }
+
+  /**
+   * Moves the indicator to the specified location.
+   *
+   * @param x The location on the X axis to move to.
+   * @param y The location on the Y axis to move to.
+   */
+  moveTo(x: number, y: number) {
+    this.location = new Blockly.utils.Coordinate(x, y);
+    this.svgRoot.setAttribute('transform', `translate(${x}, ${y})`);
+  }
+
+  /**
+   * Moves the indicator into the visible part of the workspace if it has
+   * never been placed or has been scrolled out of view.
+   *
+   * @param padding Distance from the top left of the viewport to place the
+   *     indicator at, in workspace units.
+   */
+  placeInViewIfNeeded(padding: number) {
+    const view = this.workspace.getMetricsManager().getViewMetrics(true);
+    const viewRect = new Blockly.utils.Rect(
+      view.top,
+      view.top + view.height,
+      view.left,
+      view.left + view.width,
+    );
+    if (this.location && viewRect.contains(this.location.x, this.location.y)) {
+      return;
+    }
+    const x = this.workspace.RTL
+      ? viewRect.right - padding
+      : viewRect.left + padding;
+    this.moveTo(x, viewRect.top + padding);
+  }
+
+  /**
+   * Disposes of this indicator.
+   */
+  dispose() {
+    Blockly.utils.dom.removeNode(this.svgRoot);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {BlockDescriber} from '../src/block_describer';
+
+suite('BlockDescriber', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="blocklyDiv"></div>',
+      {pretendToBeVisual: true},
+    );
+    this.workspace = Blockly.inject('blocklyDiv');
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          blocks: [
+            {
+              type: 'controls_repeat_ext',
+              id: 'repeat',
+              inputs: {
+                TIMES: {shadow: {type: 'math_number', fields: {NUM: 10}}},
+                DO: {
+                  block: {
+                    type: 'text_print',
+                    id: 'print_1',
+                    next: {
+                      block: {
+                        type: 'text_print',
+                        id: 'print_2',
+                        inputs: {
+                          TEXT: {shadow: {type: 'text', fields: {TEXT: 'hi'}}},
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.describer = new BlockDescriber();
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+  });
+
+  test('Describes the position of a statement block', function () {
+    const block = this.workspace.getBlockById('print_2');
+    const repeat = this.workspace.getBlockById('repeat');
+    assert.equal(
+      this.describer.describe(block),
+      `${block.toString()} block, inside '${repeat.toString()}', ` +
+        'statement 2 of 2',
+    );
+  });
+
+  test('Counts empty inputs', function () {
+    const block = this.workspace.getBlockById('print_1');
+    assert.include(this.describer.describe(block), 'has 1 empty input');
+  });
+
+  test('Uses per-block-type overrides', function () {
+    this.describer.registerBlockType('controls_repeat_ext', (block) => {
+      const times = block.getInputTargetBlock('TIMES').getFieldValue('NUM');
+      return `loop ${times} times`;
+    });
+    const block = this.workspace.getBlockById('print_1');
+    assert.include(this.describer.describe(block), "inside 'loop 10 times'");
+  });
+
+  test('Rejects duplicate overrides', function () {
+    this.describer.registerBlockType('text_print', () => 'say');
+    assert.throws(() =>
+      this.describer.registerBlockType('text_print', () => 'print'),
+    );
+  });
+
+  test('Describes connections relative to their block', function () {
+    const block = this.workspace.getBlockById('print_2');
+    assert.equal(
+      this.describer.describe(block.nextConnection),
+      `after '${block.toString()}'`,
+    );
+  });
+
+  test('Describes move targets by branch and stack', function () {
+    const repeat = this.workspace.getBlockById('repeat');
+    const moving = this.workspace.newBlock('text_print');
+    const other = this.workspace.newBlock('text_print');
+    other.moveBy(0, 500);
+    assert.equal(
+      this.describer.describeMoveTarget(
+        repeat.getInput('DO').connection,
+        moving,
+      ),
+      `inside '${repeat.toString()}' do-branch of stack 1`,
+    );
+    assert.equal(
+      this.describer.describeMoveTarget(other.previousConnection, moving),
+      `before '${other.toString()}' of stack 2`,
+    );
+  });
+});
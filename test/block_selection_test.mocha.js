@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {
+  BlockSelection,
+  chainCopyData,
+  deleteBlocks,
+  gatherBlocks,
+} from '../src/block_selection';
+import {createWorkspace, getStackIds} from './test_helpers';
+
+suite('BlockSelection', function () {
+  setup(function () {
+    const {workspace, cleanup} = createWorkspace();
+    this.workspace = workspace;
+    this.jsdomCleanup = cleanup;
+    const print = (id, next) => ({
+      type: 'text_print',
+      id,
+      ...(next ? {next: {block: next}} : {}),
+    });
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          blocks: [
+            {
+              ...print('p1', print('p2', print('p3', print('p4')))),
+              x: 0,
+              y: 0,
+            },
+            {
+              type: 'controls_repeat_ext',
+              id: 'repeat',
+              x: 0,
+              y: 300,
+              inputs: {DO: {block: print('inner')}},
+            },
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.selection = new BlockSelection();
+    this.block = (id) => this.workspace.getBlockById(id);
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+  });
+
+  test('Ranges of sibling statements can be extended and shrunk', function () {
+    this.selection.selectRange(this.block('p1'), this.block('p2'));
+    this.selection.selectRange(this.block('p2'), this.block('p3'));
+    assert.deepEqual(
+      this.selection.getBlocks(this.workspace).map((block) => block.id),
+      ['p1', 'p2', 'p3'],
+    );
+
+    this.selection.selectRange(this.block('p3'), this.block('p2'));
+    assert.deepEqual(
+      this.selection.getBlocks(this.workspace).map((block) => block.id),
+      ['p1', 'p2'],
+    );
+    assert.isTrue(
+      this.block('p1').getSvgRoot().classList.contains('blocklyMultiSelected'),
+    );
+  });
+
+  test('Nested blocks are left out and order follows the workspace', function () {
+    this.selection.toggle(this.block('inner'));
+    this.selection.toggle(this.block('repeat'));
+    this.selection.toggle(this.block('p3'));
+    assert.deepEqual(
+      this.selection.getBlocks(this.workspace).map((block) => block.id),
+      ['p3', 'repeat'],
+    );
+    assert.deepEqual(
+      this.selection.getTargets(this.block('p1')).map((block) => block.id),
+      ['p1'],
+    );
+
+    this.selection.clear(this.workspace);
+    assert.isEmpty(this.selection.getBlocks(this.workspace));
+  });
+
+  test('Copied blocks paste as a single stack', function () {
+    const data = chainCopyData([this.block('p1'), this.block('repeat')]);
+    const pasted = Blockly.clipboard.paste(data, this.workspace);
+    assert.equal(pasted.type, 'text_print');
+    assert.equal(pasted.getNextBlock().type, 'controls_repeat_ext');
+    assert.equal(data.typeCounts['text_print'], 2);
+  });
+
+  test('Deleting blocks joins up their stack', function () {
+    deleteBlocks([this.block('p2'), this.block('p3')]);
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p4']);
+  });
+
+  test('Gathered blocks can be put back', function () {
+    const restore = gatherBlocks([this.block('p2'), this.block('p4')]);
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p3']);
+    assert.deepEqual(getStackIds(this.block('p2')), ['p2', 'p4']);
+    assert.isNull(this.block('p2').getParent());
+
+    restore();
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p2', 'p3', 'p4']);
+  });
+});
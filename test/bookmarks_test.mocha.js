@@ -0,0 +1,77 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {Bookmarks, BOOKMARKS_SERIALIZER_NAME} from '../src/bookmarks';
+
+suite('Bookmarks', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="blocklyDiv"></div>',
+      {pretendToBeVisual: true},
+    );
+    this.workspace = Blockly.inject('blocklyDiv');
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          blocks: [
+            {type: 'text_print', id: 'setup', x: 0, y: 0},
+            {type: 'text_print', id: 'draw', x: 0, y: 100},
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.bookmarks = new Bookmarks();
+    Blockly.serialization.registry.register(
+      BOOKMARKS_SERIALIZER_NAME,
+      this.bookmarks,
+    );
+  });
+
+  teardown(function () {
+    Blockly.serialization.registry.unregister(BOOKMARKS_SERIALIZER_NAME);
+    this.jsdomCleanup();
+  });
+
+  test('Setting a bookmark replaces one with the same name', function () {
+    this.bookmarks.set(this.workspace, '1', 'setup');
+    this.bookmarks.set(this.workspace, 'loop', 'draw');
+    this.bookmarks.set(this.workspace, '1', 'draw');
+
+    assert.deepEqual(this.bookmarks.getNames(this.workspace), ['loop', '1']);
+    assert.equal(
+      this.bookmarks.getBlock(this.workspace, '1'),
+      this.workspace.getBlockById('draw'),
+    );
+  });
+
+  test('Bookmarks on deleted blocks are not found', function () {
+    this.bookmarks.set(this.workspace, '1', 'setup');
+    this.workspace.getBlockById('setup').dispose();
+
+    assert.isNull(this.bookmarks.getBlock(this.workspace, '1'));
+  });
+
+  test('Bookmarks are saved and loaded with the workspace', function () {
+    this.bookmarks.set(this.workspace, '1', 'setup');
+    this.bookmarks.set(this.workspace, 'loop', 'draw');
+    const state = Blockly.serialization.workspaces.save(this.workspace);
+    assert.deepEqual(state[BOOKMARKS_SERIALIZER_NAME], [
+      {name: '1', blockId: 'setup'},
+      {name: 'loop', blockId: 'draw'},
+    ]);
+
+    Blockly.serialization.workspaces.load(state, this.workspace);
+    assert.deepEqual(this.bookmarks.getNames(this.workspace), ['1', 'loop']);
+    assert.equal(
+      this.bookmarks.getBlock(this.workspace, 'loop'),
+      this.workspace.getBlockById('draw'),
+    );
+  });
+});
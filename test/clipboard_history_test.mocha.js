@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {ClipboardHistory} from '../src/clipboard_history';
+
+/**
+ * Returns copy data for a print block.
+ * @param {string} text The text to print.
+ * @returns {Blockly.ICopyData} The copy data.
+ */
+function printData(text) {
+  return {
+    paster: 'block',
+    blockState: {
+      type: 'text_print',
+      inputs: {TEXT: {shadow: {type: 'text', fields: {TEXT: text}}}},
+    },
+    typeCounts: {text_print: 1, text: 1},
+  };
+}
+
+suite('ClipboardHistory', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="blocklyDiv"></div>',
+      {pretendToBeVisual: true},
+    );
+    this.workspace = Blockly.inject('blocklyDiv');
+    this.history = new ClipboardHistory();
+    this.add = (text, workspace = this.workspace) =>
+      this.history.add({data: printData(text), summary: text, workspace});
+    this.getSummaries = () =>
+      this.history.getEntries().map((entry) => entry.summary);
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+  });
+
+  test('Entries are listed most recent first', function () {
+    this.add('first');
+    this.add('second');
+    assert.deepEqual(this.getSummaries(), ['second', 'first']);
+  });
+
+  test('Copying the same thing again moves it to the front', function () {
+    this.add('first');
+    this.add('second');
+    this.add('first');
+    assert.deepEqual(this.getSummaries(), ['first', 'second']);
+  });
+
+  test('Only the most recent entries are kept', function () {
+    for (let i = 0; i < 12; i++) this.add(`${i}`);
+    const summaries = this.getSummaries();
+    assert.lengthOf(summaries, 10);
+    assert.equal(summaries[0], '11');
+    assert.equal(summaries[9], '2');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {ConnectionIndex} from '../src/connection_index';
+
+suite('ConnectionIndex', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="blocklyDiv"></div>',
+      {pretendToBeVisual: true},
+    );
+    this.workspace = Blockly.inject('blocklyDiv');
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          blocks: [
+            {
+              type: 'text_print',
+              id: 'first',
+              x: 0,
+              y: 0,
+              next: {block: {type: 'text_print', id: 'second'}},
+            },
+            {type: 'text_print', id: 'moving', x: 0, y: 200},
+            {type: 'text_print', id: 'last', x: 0, y: 400},
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.block = (id) => this.workspace.getBlockById(id);
+    this.index = new ConnectionIndex(this.workspace, this.block('moving'));
+  });
+
+  teardown(function () {
+    this.index.dispose();
+    this.jsdomCleanup();
+  });
+
+  test('Connections are ordered by stack, leaving out the excluded block', function () {
+    const owners = this.index
+      .getConnections()
+      .map((connection) => connection.getSourceBlock().id);
+    assert.deepEqual(owners, [
+      'first',
+      'first',
+      'first',
+      'second',
+      'second',
+      'second',
+      'last',
+      'last',
+      'last',
+    ]);
+  });
+
+  test('Stepping moves through the stacks and wraps around', function () {
+    const connections = this.index.getConnections();
+    const next = this.block('second').nextConnection;
+    const i = connections.indexOf(next);
+    assert.equal(this.index.getNeighbour(next, true), connections[i + 1]);
+    assert.equal(this.index.getNeighbour(next, false), connections[i - 1]);
+    assert.equal(
+      this.index.getNeighbour(connections[connections.length - 1], true),
+      connections[0],
+    );
+    assert.equal(
+      this.index.getNeighbour(connections[0], false),
+      connections[connections.length - 1],
+    );
+  });
+
+  test('Changed stacks are indexed again', async function () {
+    const before = this.index.getConnections();
+    this.block('second').unplug();
+    this.block('second').moveTo(new Blockly.utils.Coordinate(0, 600));
+    // Events are fired asynchronously.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const after = this.index.getConnections();
+    assert.notStrictEqual(after, before);
+    assert.deepEqual(
+      after.map((connection) => connection.getSourceBlock().id).slice(-3),
+      ['second', 'second', 'second'],
+    );
+  });
+
+  test('The order is reused while nothing changes', function () {
+    assert.strictEqual(
+      this.index.getConnections(),
+      this.index.getConnections(),
+    );
+  });
+
+  test('Invalidated stacks are sorted again', function () {
+    const before = this.index.getConnections();
+    this.index.invalidate(this.block('second'));
+
+    const after = this.index.getConnections();
+    assert.notStrictEqual(after, before);
+    assert.deepEqual(after, before);
+  });
+
+  test('Stepping after an invalidation only sorts that stack again', function () {
+    const connections = this.index.getConnections();
+    // Stacks aren't part of the public interface; look at them to check
+    // that the other stacks are reused.
+    const stacks = this.index.stacks;
+    const first = stacks.get(this.block('first'));
+    const last = stacks.get(this.block('last'));
+    this.index.invalidate(this.block('second'));
+
+    // The last connection in the first stack, and the first in the next.
+    assert.equal(this.index.getNeighbour(connections[5], true), connections[6]);
+    assert.notStrictEqual(stacks.get(this.block('first')), first);
+    assert.strictEqual(stacks.get(this.block('last')), last);
+  });
+});
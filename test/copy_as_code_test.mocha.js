@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {javascriptGenerator} from 'blockly/javascript';
+import {assert} from 'chai';
+import {KeyboardNavigation} from '../src/index';
+
+suite('Copy as code', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="blocklyDiv"></div>',
+      {pretendToBeVisual: true},
+    );
+    Blockly.ShortcutRegistry.registry.reset();
+    Blockly.ShortcutItems.registerDefaultShortcuts();
+    Blockly.ContextMenuRegistry.registry.reset();
+    Blockly.ContextMenuItems.registerDefaultOptions();
+    this.workspace = Blockly.inject('blocklyDiv');
+    this.block = Blockly.serialization.blocks.append(
+      {
+        type: 'text_print',
+        inputs: {TEXT: {shadow: {type: 'text', fields: {TEXT: 'hi'}}}},
+        next: {block: {type: 'text_print'}},
+      },
+      this.workspace,
+    );
+    this.written = [];
+    Object.defineProperty(navigator, 'clipboard', {
+      value: {writeText: async (text) => this.written.push(text)},
+      configurable: true,
+    });
+    this.getItem = () =>
+      Blockly.ContextMenuRegistry.registry.getItem(
+        'blockCopyAsCodeFromContextMenu',
+      );
+  });
+
+  teardown(function () {
+    this.keyboardNav.dispose();
+    this.jsdomCleanup();
+  });
+
+  test('The block at the cursor is copied as code', function () {
+    this.keyboardNav = new KeyboardNavigation(this.workspace, {
+      allowCrossWorkspacePaste: false,
+      codeGenerator: javascriptGenerator,
+    });
+    const scope = {focusedNode: this.block};
+    assert.equal(this.getItem().preconditionFn(scope), 'enabled');
+    this.getItem().callback(scope);
+    assert.deepEqual(this.written, ["window.alert('hi');"]);
+  });
+
+  test('The item is hidden without a code generator', function () {
+    this.keyboardNav = new KeyboardNavigation(this.workspace);
+    assert.equal(
+      this.getItem().preconditionFn({focusedNode: this.block}),
+      'hidden',
+    );
+  });
+
+  test('Nothing is copied for blocks without a generator', function () {
+    Blockly.common.defineBlocks({
+      test_no_generator: {
+        init: function () {
+          this.setPreviousStatement(true);
+        },
+      },
+    });
+    this.keyboardNav = new KeyboardNavigation(this.workspace, {
+      allowCrossWorkspacePaste: false,
+      codeGenerator: javascriptGenerator,
+    });
+    try {
+      const block = this.workspace.newBlock('test_no_generator');
+      assert.isTrue(this.getItem().callback({focusedNode: block}));
+    } finally {
+      delete Blockly.Blocks['test_no_generator'];
+    }
+    assert.deepEqual(this.written, []);
+  });
+});
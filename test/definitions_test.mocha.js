@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {DefinitionAction} from '../src/actions/definitions';
+
+suite('DefinitionAction', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="blocklyDiv"></div>',
+      {pretendToBeVisual: true},
+    );
+    this.workspace = Blockly.inject('blocklyDiv');
+    Blockly.serialization.workspaces.load(
+      {
+        variables: [{name: 'score', id: 'score'}],
+        blocks: {
+          blocks: [
+            {
+              type: 'procedures_defnoreturn',
+              id: 'def',
+              x: 0,
+              y: 0,
+              fields: {NAME: 'draw'},
+              inputs: {
+                STACK: {
+                  block: {
+                    type: 'variables_set',
+                    id: 'set',
+                    fields: {VAR: {id: 'score'}},
+                  },
+                },
+              },
+            },
+            {
+              type: 'procedures_callnoreturn',
+              id: 'call_1',
+              x: 0,
+              y: 200,
+              extraState: {name: 'draw'},
+              next: {
+                block: {
+                  type: 'text_print',
+                  id: 'print',
+                  inputs: {
+                    TEXT: {
+                      block: {
+                        type: 'variables_get',
+                        id: 'get',
+                        fields: {VAR: {id: 'score'}},
+                      },
+                    },
+                  },
+                  next: {
+                    block: {
+                      type: 'procedures_callnoreturn',
+                      id: 'call_2',
+                      extraState: {name: 'draw'},
+                    },
+                  },
+                },
+              },
+            },
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.action = new DefinitionAction({}, {});
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+  });
+
+  test('Finds the definition of a procedure call', function () {
+    const call = this.workspace.getBlockById('call_2');
+    assert.equal(
+      this.action.findDefinition(this.workspace, call),
+      this.workspace.getBlockById('def'),
+    );
+  });
+
+  test('Finds the block that sets a variable', function () {
+    const getter = this.workspace.getBlockById('get');
+    assert.equal(
+      this.action.findDefinition(this.workspace, getter),
+      this.workspace.getBlockById('set'),
+    );
+  });
+
+  test('Finds the call sites of a procedure in workspace order', function () {
+    const definition = this.workspace.getBlockById('def');
+    assert.deepEqual(
+      this.action.findUsages(this.workspace, definition).map((b) => b.id),
+      ['call_1', 'call_2'],
+    );
+  });
+
+  test('Finds the uses of a variable field', function () {
+    const field = this.workspace.getBlockById('get').getField('VAR');
+    assert.deepEqual(
+      this.action.findUsages(this.workspace, field).map((b) => b.id),
+      ['set', 'get'],
+    );
+  });
+});
@@ -99,7 +99,11 @@ function createWorkspace(): Blockly.WorkspaceSvg {
   const workspace = Blockly.inject(blocklyDiv, injectOptions);
 
   Blockly.ContextMenuItems.registerCommentOptions();
-  new KeyboardNavigation(workspace);
+  const keyboardNavigation = new KeyboardNavigation(workspace, {
+    allowCrossWorkspacePaste: false,
+    codeGenerator: javascriptGenerator,
+  });
+  registerP5Describers(keyboardNavigation);
   registerRunCodeShortcut();
 
   // Disable blocks that aren't inside the setup or draw loops.
@@ -111,6 +115,30 @@ function createWorkspace(): Blockly.WorkspaceSvg {
   return workspace;
 }
 
+/**
+ * Register screen reader wording for p5.js blocks that reads better than the
+ * generic description.
+ *
+ * @param keyboardNavigation The keyboard navigation plugin instance.
+ */
+function registerP5Describers(keyboardNavigation: KeyboardNavigation) {
+  const describer = keyboardNavigation.getAnnouncer().getDescriber();
+  describer.registerBlockType(
+    'p5_canvas',
+    (block) =>
+      `${block.getFieldValue('WIDTH')} by ${block.getFieldValue('HEIGHT')} canvas`,
+  );
+  const emojiNames = new Map([
+    ['❤️', 'heart'],
+    ['✨', 'sparkles'],
+    ['🐻', 'bear'],
+  ]);
+  describer.registerBlockType('draw_emoji', (block) => {
+    const emoji = block.getFieldValue('emoji');
+    return `draw ${emojiNames.get(emoji) ?? emoji} emoji`;
+  });
+}
+
 /**
  * Install p5.js blocks and generators.
  */
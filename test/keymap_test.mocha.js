@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {Keymap, KEYMAP_STORAGE_KEY} from '../src/keymap';
+import {KEYMAP_PRESETS} from '../src/keymap_presets';
+
+/**
+ * Creates a minimal in-memory implementation of the Storage interface.
+ * @returns {object} The storage.
+ */
+function createMemoryStorage() {
+  const items = new Map();
+  return {
+    getItem: (key) => (items.has(key) ? items.get(key) : null),
+    setItem: (key, value) => items.set(key, `${value}`),
+    removeItem: (key) => items.delete(key),
+  };
+}
+
+suite('Keymap', function () {
+  setup(function () {
+    const registry = Blockly.ShortcutRegistry.registry;
+    registry.reset();
+    registry.register({name: 'first', keyCodes: [Blockly.utils.KeyCodes.T]});
+    registry.register({name: 'second', keyCodes: [Blockly.utils.KeyCodes.X]});
+    this.storage = createMemoryStorage();
+  });
+
+  teardown(function () {
+    Blockly.ShortcutRegistry.registry.reset();
+    Blockly.ShortcutItems.registerDefaultShortcuts();
+  });
+
+  test('Overrides replace the default keys', function () {
+    const keymap = new Keymap({first: [Blockly.utils.KeyCodes.Q]}, null);
+    keymap.apply();
+    assert.deepEqual(keymap.getKeys('first'), ['81']);
+  });
+
+  test('Overrides that conflict with another shortcut are skipped', function () {
+    const keymap = new Keymap({first: [Blockly.utils.KeyCodes.X]}, null);
+    keymap.apply();
+    assert.deepEqual(keymap.getKeys('first'), ['84']);
+  });
+
+  test('Rebinding to a key in use throws', function () {
+    const keymap = new Keymap({}, this.storage);
+    keymap.apply();
+    assert.deepEqual(keymap.getConflicts('first', [88]), ['second']);
+    assert.throws(() => keymap.rebind('first', [88]), /second/);
+    assert.throws(() => keymap.rebind('missing', [81]), /not found/);
+
+    keymap.rebind('first', [88], true);
+    assert.deepEqual(keymap.getKeys('first'), ['88']);
+  });
+
+  test('Rebound keys are saved and restored', function () {
+    const keymap = new Keymap({}, this.storage);
+    keymap.apply();
+    keymap.rebind('first', [81]);
+    assert.deepEqual(JSON.parse(this.storage.getItem(KEYMAP_STORAGE_KEY)), {
+      first: [81],
+    });
+
+    Blockly.ShortcutRegistry.registry.removeAllKeyMappings('first');
+    Blockly.ShortcutRegistry.registry.addKeyMapping(84, 'first');
+    new Keymap({}, this.storage).apply();
+    assert.deepEqual(keymap.getKeys('first'), ['81']);
+  });
+
+  test('Reset restores the default keys', function () {
+    const keymap = new Keymap({}, this.storage);
+    keymap.apply();
+    keymap.rebind('first', [81]);
+    keymap.reset();
+    assert.deepEqual(keymap.getKeys('first'), ['84']);
+    assert.isNull(this.storage.getItem(KEYMAP_STORAGE_KEY));
+  });
+
+  test('Preset keys are applied before the overrides', function () {
+    const keymap = new Keymap({second: [Blockly.utils.KeyCodes.Q]}, null, {
+      first: [Blockly.utils.KeyCodes.X],
+      second: [Blockly.utils.KeyCodes.Z],
+    });
+    keymap.apply();
+    assert.deepEqual(keymap.getKeys('first'), ['88']);
+    assert.deepEqual(keymap.getKeys('second'), ['81']);
+
+    keymap.rebind('first', [Blockly.utils.KeyCodes.W]);
+    keymap.reset('first');
+    assert.deepEqual(keymap.getKeys('first'), ['88']);
+  });
+
+  test('The vim preset binds HJKL', function () {
+    const registry = Blockly.ShortcutRegistry.registry;
+    registry.register({name: 'left', keyCodes: [Blockly.utils.KeyCodes.LEFT]});
+    registry.register({name: 'up', keyCodes: [Blockly.utils.KeyCodes.UP]});
+    new Keymap({}, null, KEYMAP_PRESETS.vim).apply();
+    assert.include(registry.getShortcutNamesByKeyCode('72'), 'left');
+    assert.include(registry.getShortcutNamesByKeyCode('75'), 'up');
+    assert.include(registry.getShortcutNamesByKeyCode('37'), 'left');
+  });
+
+  test('The single-switch preset steps with Space and selects with Enter', function () {
+    const registry = Blockly.ShortcutRegistry.registry;
+    const KeyCodes = Blockly.utils.KeyCodes;
+    registry.register({name: 'down', keyCodes: [KeyCodes.DOWN]});
+    registry.register({
+      name: 'edit_or_confirm',
+      keyCodes: [KeyCodes.ENTER, KeyCodes.SPACE],
+      allowCollision: true,
+    });
+    new Keymap({}, null, KEYMAP_PRESETS.singleSwitch).apply();
+    assert.deepEqual(registry.getShortcutNamesByKeyCode('32'), ['down']);
+    assert.deepEqual(registry.getShortcutNamesByKeyCode('13'), [
+      'edit_or_confirm',
+    ]);
+    assert.include(registry.getShortcutNamesByKeyCode('40'), 'down');
+  });
+});
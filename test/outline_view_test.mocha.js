@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {OutlineView} from '../src/outline_view';
+
+/**
+ * Returns the labels of the outline entries that are shown.
+ * @param {HTMLElement} container The element holding the outline.
+ * @returns {Array<string>} The labels, in document order.
+ */
+function getShownLabels(container) {
+  return [...container.querySelectorAll('[role="treeitem"]')]
+    .filter((item) => !item.closest('[hidden]'))
+    .map((item) => item.getAttribute('aria-label'));
+}
+
+/**
+ * Presses a key in the outline.
+ * @param {HTMLElement} container The element holding the outline.
+ * @param {string} key The key to press.
+ */
+function pressKey(container, key) {
+  container.firstElementChild.dispatchEvent(
+    new KeyboardEvent('keydown', {key, bubbles: true}),
+  );
+}
+
+suite('OutlineView', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="blocklyDiv"></div><div id="outline"></div>',
+      {pretendToBeVisual: true},
+    );
+    this.workspace = Blockly.inject('blocklyDiv');
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          blocks: [
+            {
+              type: 'controls_repeat_ext',
+              id: 'repeat',
+              x: 10,
+              y: 20,
+              inputs: {
+                DO: {block: {type: 'text_print', id: 'print'}},
+              },
+              next: {block: {type: 'text_print', id: 'after'}},
+            },
+            {type: 'text_print', id: 'other', x: 10, y: 300},
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.container = document.getElementById('outline');
+    this.outline = new OutlineView(this.workspace, this.container);
+  });
+
+  teardown(function () {
+    this.outline.dispose();
+    this.jsdomCleanup();
+  });
+
+  test('Stacks are expanded to show their blocks', function () {
+    assert.deepEqual(getShownLabels(this.container), [
+      'Stack 1',
+      'repeat ? times do print ?',
+      'print ?',
+      'Stack 2',
+      'print ?',
+    ]);
+  });
+
+  test('Left and right collapse and expand entries', function () {
+    pressKey(this.container, 'ArrowLeft');
+    assert.deepEqual(getShownLabels(this.container), [
+      'Stack 1',
+      'Stack 2',
+      'print ?',
+    ]);
+
+    pressKey(this.container, 'ArrowRight');
+    assert.include(getShownLabels(this.container), 'repeat ? times do print ?');
+  });
+
+  test('Focus on the workspace opens the tree at that block', function () {
+    const block = this.workspace.getBlockById('print');
+    block
+      .getFocusableElement()
+      .dispatchEvent(new window.FocusEvent('focusin', {bubbles: true}));
+
+    const current = this.container.querySelector('[tabindex="0"]');
+    assert.equal(current.getAttribute('aria-label'), 'print ?');
+    assert.isNull(current.closest('[hidden]'));
+    assert.equal(
+      current.parentElement
+        .closest('[role="treeitem"]')
+        .getAttribute('aria-label'),
+      'do input',
+    );
+  });
+
+  test('The tree follows changes to the workspace', async function () {
+    this.workspace.getBlockById('other').dispose();
+    // Events are fired asynchronously, and the tree is rebuilt after them.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assert.notInclude(getShownLabels(this.container), 'Stack 2');
+  });
+
+  test('The tree is rebuilt once for a burst of changes', async function () {
+    let renders = 0;
+    const render = this.outline.render.bind(this.outline);
+    this.outline.render = () => {
+      renders++;
+      render();
+    };
+    for (let i = 0; i < 5; i++) this.workspace.newBlock('text_print');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assert.equal(renders, 1);
+    assert.include(getShownLabels(this.container), 'Stack 7');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {KeyboardNavigation} from '../src/index';
+import {PASTE_COMPATIBILITY_POLICIES} from '../src/paste_compatibility';
+
+suite('Paste compatibility', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="main"></div><div id="library"></div>',
+      {pretendToBeVisual: true},
+    );
+    this.main = Blockly.inject('main', {
+      toolbox: {
+        kind: 'flyoutToolbox',
+        contents: [
+          {kind: 'block', type: 'text_print'},
+          {kind: 'block', type: 'text'},
+          {kind: 'block', type: 'variables_get'},
+        ],
+      },
+    });
+    this.library = Blockly.inject('library');
+    this.check = (block, target = this.main) =>
+      PASTE_COMPATIBILITY_POLICIES.compatibleBlocks(
+        block.toCopyData(),
+        block.workspace,
+        target,
+      );
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+  });
+
+  test('Blocks in the toolbox can be pasted', function () {
+    const block = Blockly.serialization.blocks.append(
+      {
+        type: 'text_print',
+        inputs: {TEXT: {shadow: {type: 'text', fields: {TEXT: 'hi'}}}},
+      },
+      this.library,
+    );
+    assert.isNull(this.check(block));
+  });
+
+  test('Blocks missing from the toolbox are explained', function () {
+    const block = this.library.newBlock('math_number');
+    assert.equal(
+      this.check(block),
+      "Block type 'math_number' isn't available in this workspace",
+    );
+    // Pasting back where it was copied from is always allowed.
+    assert.isNull(this.check(block, this.library));
+  });
+
+  test('Variables must have the same type', function () {
+    this.main.createVariable('count', 'Number');
+    const block = Blockly.serialization.blocks.append(
+      {type: 'variables_get', fields: {VAR: {name: 'count', type: 'String'}}},
+      this.library,
+    );
+    assert.equal(
+      this.check(block),
+      "Variable 'count' has a different type in this workspace",
+    );
+  });
+
+  test('Blocks copied from another workspace are pasted into this one', function () {
+    // jsdom-global doesn't expose these, and jsdom has no pointer events.
+    global.SVGElement = window.SVGElement;
+    global.PointerEvent = window.MouseEvent;
+    Blockly.ShortcutRegistry.registry.reset();
+    Blockly.ShortcutItems.registerDefaultShortcuts();
+    const keyboardNav = new KeyboardNavigation(this.main, {
+      pasteCompatibility: 'anyWorkspace',
+    });
+    try {
+      Blockly.clipboard.copy(this.library.newBlock('text_print'));
+      const shortcut =
+        Blockly.ShortcutRegistry.registry.getRegistry()['keyboard_nav_paste'];
+      const event = new window.KeyboardEvent('keydown');
+      assert.isTrue(shortcut.callback(this.main, event, shortcut, {}));
+      assert.lengthOf(this.main.getAllBlocks(false), 1);
+      assert.lengthOf(this.library.getAllBlocks(false), 1);
+    } finally {
+      keyboardNav.dispose();
+      delete global.SVGElement;
+      delete global.PointerEvent;
+    }
+  });
+});
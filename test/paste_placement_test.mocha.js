@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {Navigation} from '../src/navigation';
+import {getAllowedPlacements} from '../src/paste_placement';
+import {createWorkspace, getStackIds} from './test_helpers';
+
+suite('Paste placement', function () {
+  setup(function () {
+    const {workspace, cleanup} = createWorkspace();
+    this.workspace = workspace;
+    this.jsdomCleanup = cleanup;
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          blocks: [
+            {
+              type: 'controls_repeat_ext',
+              id: 'repeat',
+              x: 10,
+              y: 20,
+              next: {block: {type: 'text_print', id: 'after'}},
+            },
+            {type: 'math_number', id: 'number', x: 10, y: 300},
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.block = (id) => this.workspace.getBlockById(id);
+    this.copy = (type) => this.workspace.newBlock(type).toCopyData();
+    this.paste = (type) => {
+      const block = this.workspace.newBlock(type, 'pasted');
+      block.initSvg();
+      block.render();
+      return block;
+    };
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+  });
+
+  test('Placements are limited by the connection checker', function () {
+    assert.deepEqual(
+      getAllowedPlacements(this.copy('text_print'), this.block('repeat')),
+      ['before', 'after', 'inside', 'replace', 'newStack'],
+    );
+    assert.deepEqual(
+      getAllowedPlacements(this.copy('text_print'), this.block('number')),
+      ['replace', 'newStack'],
+    );
+    assert.deepEqual(
+      getAllowedPlacements(this.copy('math_number'), this.block('after')),
+      ['inside', 'newStack'],
+    );
+  });
+
+  test('Checking placements leaves the workspace unchanged', function () {
+    const data = this.copy('text_print');
+    const count = this.workspace.getAllBlocks(false).length;
+    getAllowedPlacements(data, this.block('repeat'));
+    assert.lengthOf(this.workspace.getAllBlocks(false), count);
+  });
+
+  test('Checking placements does not leave variables behind', function () {
+    const data = {
+      paster: Blockly.clipboard.BlockPaster.TYPE,
+      blockState: {
+        type: 'variables_set',
+        fields: {VAR: {name: 'probed'}},
+      },
+      typeCounts: {variables_set: 1},
+    };
+    getAllowedPlacements(data, this.block('repeat'));
+    assert.isEmpty(this.workspace.getVariableMap().getAllVariables());
+  });
+
+  test('Blocks are pasted above and below', function () {
+    const navigation = new Navigation();
+    navigation.placeBlock(
+      this.paste('text_print'),
+      this.block('after'),
+      'before',
+    );
+    assert.deepEqual(getStackIds(this.block('repeat')), [
+      'repeat',
+      'pasted',
+      'after',
+    ]);
+  });
+
+  test('Replacing a block keeps the blocks below it', function () {
+    const navigation = new Navigation();
+    navigation.placeBlock(
+      this.paste('controls_whileUntil'),
+      this.block('repeat'),
+      'replace',
+    );
+    assert.isNull(this.block('repeat'));
+    assert.deepEqual(getStackIds(this.block('pasted')), ['pasted', 'after']);
+  });
+});
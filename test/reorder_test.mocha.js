@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {ReorderAction} from '../src/actions/reorder';
+import {createWorkspace, getStackIds} from './test_helpers';
+
+suite('ReorderAction', function () {
+  setup(function () {
+    const {workspace, cleanup} = createWorkspace();
+    this.workspace = workspace;
+    this.jsdomCleanup = cleanup;
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          blocks: [
+            {
+              type: 'text_print',
+              id: 'p1',
+              x: 10,
+              y: 20,
+              next: {
+                block: {
+                  type: 'text_print',
+                  id: 'p2',
+                  next: {block: {type: 'text_print', id: 'p3'}},
+                },
+              },
+            },
+            {
+              type: 'controls_repeat_ext',
+              id: 'repeat',
+              x: 10,
+              y: 300,
+              inputs: {
+                DO: {
+                  block: {
+                    type: 'text_print',
+                    id: 'a',
+                    next: {block: {type: 'text_print', id: 'b'}},
+                  },
+                },
+              },
+            },
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.action = new ReorderAction({}, {});
+    this.block = (id) => this.workspace.getBlockById(id);
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+  });
+
+  test('Moving the top statement down keeps the stack in place', function () {
+    assert.isTrue(this.action.moveStatement(this.block('p1'), 'down'));
+    assert.deepEqual(getStackIds(this.block('p2')), ['p2', 'p1', 'p3']);
+    assert.isNull(this.block('p2').getParent());
+    const {x, y} = this.block('p2').getRelativeToSurfaceXY();
+    assert.deepEqual({x, y}, {x: 10, y: 20});
+  });
+
+  test('Statements move up inside a statement input', function () {
+    assert.isTrue(this.action.moveStatement(this.block('b'), 'up'));
+    assert.deepEqual(getStackIds(this.block('b')), ['b', 'a']);
+    assert.equal(this.block('b').getParent().id, 'repeat');
+  });
+
+  test('Statements at the ends of a stack do not move past them', function () {
+    assert.isFalse(this.action.moveStatement(this.block('p1'), 'up'));
+    assert.isFalse(this.action.moveStatement(this.block('p3'), 'down'));
+    assert.isFalse(this.action.moveStatement(this.block('a'), 'up'));
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p2', 'p3']);
+  });
+
+  test('A swap is undone in one step', async function () {
+    this.action.moveStatement(this.block('p2'), 'down');
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p3', 'p2']);
+    // Events are fired asynchronously.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    this.workspace.undo(false);
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p2', 'p3']);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {ReplaceAction} from '../src/actions/replace';
+import {createWorkspace} from './test_helpers';
+
+suite('ReplaceAction', function () {
+  setup(function () {
+    Blockly.common.defineBlocks({
+      test_number_variable: {
+        init: function () {
+          this.appendDummyInput().appendField(
+            new Blockly.FieldVariable('item', null, ['Number'], 'Number'),
+            'VAR',
+          );
+        },
+      },
+    });
+    const {workspace, cleanup} = createWorkspace();
+    this.workspace = workspace;
+    this.jsdomCleanup = cleanup;
+    this.action = new ReplaceAction({}, {}, {announce: () => {}});
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+    delete Blockly.Blocks['test_number_variable'];
+  });
+
+  test('Replaced variables keep their type', function () {
+    const variableMap = this.workspace.getVariableMap();
+    for (const name of ['apple', 'apricot']) {
+      const block = this.workspace.newBlock('test_number_variable');
+      block
+        .getField('VAR')
+        .setValue(variableMap.createVariable(name, 'Number').getId());
+    }
+    assert.equal(this.action.replaceAll(this.workspace, 'ap', 'gr'), 2);
+    const names = this.workspace
+      .getAllBlocks(false)
+      .map((block) => block.getField('VAR').getVariable())
+      .map((variable) => [variable.getName(), variable.getType()]);
+    assert.sameDeepMembers(names, [
+      ['grple', 'Number'],
+      ['grricot', 'Number'],
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {SurroundAction} from '../src/actions/surround';
+import {Navigation} from '../src/navigation';
+import {createWorkspace, getStackIds} from './test_helpers';
+
+suite('SurroundAction', function () {
+  setup(function () {
+    const {workspace, cleanup} = createWorkspace({
+      toolbox: {
+        kind: 'flyoutToolbox',
+        contents: [
+          {kind: 'block', type: 'text_print'},
+          {kind: 'block', type: 'controls_repeat_ext'},
+          {kind: 'block', type: 'controls_if'},
+          {kind: 'block', type: 'math_number'},
+        ],
+      },
+    });
+    this.workspace = workspace;
+    this.jsdomCleanup = cleanup;
+    const print = (id, next) => ({
+      type: 'text_print',
+      id,
+      ...(next ? {next: {block: next}} : {}),
+    });
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          blocks: [
+            {
+              ...print('p1', print('p2', print('p3', print('p4')))),
+              x: 10,
+              y: 20,
+            },
+          ],
+        },
+      },
+      this.workspace,
+    );
+    this.action = new SurroundAction(new Navigation(), {});
+    this.block = (id) => this.workspace.getBlockById(id);
+  });
+
+  teardown(function () {
+    this.jsdomCleanup();
+  });
+
+  test('Only C-shaped toolbox blocks are offered', function () {
+    assert.deepEqual(
+      this.action.getContainers(this.workspace).map((item) => item.type),
+      ['controls_repeat_ext', 'controls_if'],
+    );
+  });
+
+  test('A run of statements is surrounded in place', function () {
+    const container = this.action.surround(
+      [this.block('p2'), this.block('p3')],
+      {type: 'controls_repeat_ext', id: 'repeat'},
+    );
+    assert.equal(container.id, 'repeat');
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'repeat', 'p4']);
+    assert.deepEqual(getStackIds(container.getInputTargetBlock('DO')), [
+      'p2',
+      'p3',
+    ]);
+  });
+
+  test('Statements that are not next to each other are not surrounded', function () {
+    assert.isNull(
+      this.action.surround([this.block('p1'), this.block('p3')], {
+        type: 'controls_repeat_ext',
+      }),
+    );
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p2', 'p3', 'p4']);
+  });
+
+  test('Statements that cannot go inside the block leave nothing to undo', async function () {
+    Blockly.common.defineBlocks({
+      test_top_container: {
+        init: function () {
+          this.appendStatementInput('DO');
+        },
+      },
+    });
+    try {
+      assert.isNull(
+        this.action.surround([this.block('p2')], {
+          type: 'test_top_container',
+        }),
+      );
+    } finally {
+      delete Blockly.Blocks['test_top_container'];
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    assert.equal(this.workspace.getUndoStack().length, 0);
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p2', 'p3', 'p4']);
+  });
+
+  test('Blocks with anything else attached are not unwrapped', function () {
+    const container = this.action.surround([this.block('p2')], {
+      type: 'controls_if',
+      id: 'if',
+      inputs: {IF0: {block: {type: 'logic_boolean'}}},
+    });
+    assert.isFalse(this.action.unwrap(container));
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'if', 'p3', 'p4']);
+  });
+
+  test('Unwrapping undoes surrounding, and both undo in one step', async function () {
+    const container = this.action.surround([this.block('p1')], {
+      type: 'controls_repeat_ext',
+      id: 'repeat',
+    });
+    assert.isNull(container.getParent());
+    const {x, y} = container.getRelativeToSurfaceXY();
+    assert.deepEqual({x, y}, {x: 10, y: 20});
+    // Events are fired asynchronously.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assert.isTrue(this.action.unwrap(container));
+    assert.isNull(this.block('repeat'));
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p2', 'p3', 'p4']);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    this.workspace.undo(false);
+    assert.deepEqual(getStackIds(this.block('repeat')), [
+      'repeat',
+      'p2',
+      'p3',
+      'p4',
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    this.workspace.undo(false);
+    assert.isNull(this.block('repeat'));
+    assert.deepEqual(getStackIds(this.block('p1')), ['p1', 'p2', 'p3', 'p4']);
+  });
+});
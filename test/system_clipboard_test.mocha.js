@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {
+  copyDataToText,
+  looksLikeBlockText,
+  textToCopyData,
+} from '../src/system_clipboard';
+import {KeyboardNavigation} from '../src/index';
+
+suite('System clipboard', function () {
+  setup(function () {
+    this.jsdomCleanup = require('jsdom-global')(
+      '<!DOCTYPE html><div id="blocklyDiv"></div>',
+      {pretendToBeVisual: true},
+    );
+    // Pasting needs these, and jsdom-global doesn't expose them. jsdom has
+    // no pointer events at all.
+    global.SVGElement = window.SVGElement;
+    global.requestAnimationFrame = window.requestAnimationFrame;
+    global.PointerEvent = window.MouseEvent;
+    this.workspace = Blockly.inject('blocklyDiv');
+  });
+
+  teardown(function () {
+    delete global.SVGElement;
+    delete global.requestAnimationFrame;
+    delete global.PointerEvent;
+    this.jsdomCleanup();
+  });
+
+  test('Copied blocks can be pasted back from their text', function () {
+    const block = this.workspace.newBlock('text_print');
+    const data = block.toCopyData();
+    const text = copyDataToText(data);
+    assert.isTrue(looksLikeBlockText(text));
+
+    const pasted = textToCopyData(text);
+    assert.equal(pasted.paster, Blockly.clipboard.BlockPaster.TYPE);
+    assert.deepEqual(pasted.blockState, data.blockState);
+    assert.deepEqual(pasted.typeCounts, {text_print: 1});
+  });
+
+  test('Attached blocks are counted', function () {
+    const pasted = textToCopyData(
+      JSON.stringify({
+        type: 'text_print',
+        inputs: {TEXT: {shadow: {type: 'text', fields: {TEXT: 'hi'}}}},
+        next: {block: {type: 'text_print'}},
+      }),
+    );
+    assert.deepEqual(pasted.typeCounts, {text_print: 2, text: 1});
+  });
+
+  test('Invalid text is rejected', function () {
+    assert.throws(
+      () => textToCopyData('{not json'),
+      "The clipboard doesn't contain valid block JSON.",
+    );
+    assert.throws(
+      () => textToCopyData('{"x": 1}'),
+      "The JSON on the clipboard isn't a block.",
+    );
+  });
+
+  test('Unknown block types are rejected', function () {
+    assert.throws(
+      () => textToCopyData('{"type": "no_such_block"}'),
+      "Can't paste unknown block type 'no_such_block'",
+    );
+  });
+
+  test('Block JSON that does not match the block is not pasted', function () {
+    const keyboardNav = new KeyboardNavigation(this.workspace);
+    try {
+      Blockly.getFocusManager().focusTree(this.workspace);
+      const event = new window.Event('paste', {cancelable: true});
+      event.clipboardData = {
+        getData: () =>
+          JSON.stringify({
+            type: 'controls_if',
+            inputs: {NOPE: {block: {type: 'logic_boolean'}}},
+          }),
+      };
+      document.dispatchEvent(event);
+      assert.isTrue(event.defaultPrevented);
+      assert.isEmpty(this.workspace.getAllBlocks(false));
+      assert.equal(Blockly.Events.getGroup(), '');
+    } finally {
+      keyboardNav.dispose();
+    }
+  });
+
+  test('Key presses that no paste event follows paste straight away', function () {
+    const keyboardNav = new KeyboardNavigation(this.workspace);
+    try {
+      const block = this.workspace.newBlock('text_print');
+      Blockly.clipboard.copy(block);
+      const shortcut =
+        Blockly.ShortcutRegistry.registry.getRegistry()['keyboard_nav_paste'];
+      const event = new window.KeyboardEvent('keydown');
+      assert.isTrue(shortcut.callback(this.workspace, event, shortcut, {}));
+      assert.lengthOf(this.workspace.getAllBlocks(false), 2);
+    } finally {
+      keyboardNav.dispose();
+    }
+  });
+});
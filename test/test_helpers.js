@@ -0,0 +1,40 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+
+/**
+ * Creates a fresh document with a div for Blockly, and injects a workspace
+ * into it.
+ * @param {Blockly.BlocklyOptions=} options Options for the workspace.
+ * @returns {{workspace: Blockly.WorkspaceSvg, cleanup: function(): void}} The
+ *     workspace, and a function that removes the document again.
+ */
+export function createWorkspace(options = {}) {
+  const cleanup = require('jsdom-global')(
+    '<!DOCTYPE html><div id="blocklyDiv"></div>',
+    {pretendToBeVisual: true},
+  );
+  // A workspace that can't scroll bumps new blocks into its bounds, which
+  // are empty in jsdom.
+  const workspace = Blockly.inject('blocklyDiv', {
+    move: {scrollbars: true},
+    ...options,
+  });
+  return {workspace, cleanup};
+}
+
+/**
+ * Returns the ids of a block and the blocks after it in its stack.
+ * @param {Blockly.Block} block The first block.
+ * @returns {Array<string>} The ids.
+ */
+export function getStackIds(block) {
+  const ids = [];
+  for (; block; block = block.getNextBlock()) ids.push(block.id);
+  return ids;
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as chai from 'chai';
+import {Key} from 'webdriverio';
+import {
+  focusOnBlock,
+  keyDown,
+  PAUSE_TIME,
+  tabNavigateToWorkspace,
+  testFileLocations,
+  testSetup,
+} from './test_setup.js';
+
+suite('Screen reader announcements', function () {
+  // Setting timeout to unlimited as these tests take longer time to run
+  this.timeout(0);
+
+  // Clear the workspace and load start blocks
+  setup(async function () {
+    this.browser = await testSetup(testFileLocations.BASE);
+    await this.browser.pause(PAUSE_TIME);
+  });
+
+  test('Live regions are added to the injection div', async function () {
+    const regions = await this.browser.execute(() =>
+      Array.from(
+        document.querySelectorAll('.injectionDiv .blocklyAriaLiveRegion'),
+      ).map((region) => region.getAttribute('aria-live')),
+    );
+    chai.assert.sameMembers(regions, ['polite', 'assertive']);
+  });
+
+  test('Arrow navigation announces the focused node', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+    await keyDown(this.browser);
+    await this.browser.pause(PAUSE_TIME * 2);
+
+    chai.assert.match(await getLiveRegionText(this.browser, 'polite'), /block/);
+  });
+
+  test('Copy announces the result', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+    await this.browser.keys([Key.Ctrl, 'c']);
+    await this.browser.pause(PAUSE_TIME * 2);
+
+    chai.assert.equal(
+      await getLiveRegionText(this.browser, 'polite'),
+      'Copied',
+    );
+  });
+});
+
+/**
+ * Get the text of one of the screen reader live regions.
+ *
+ * @param browser The active WebdriverIO Browser object.
+ * @param priority The politeness level of the region to read.
+ * @returns The text of the live region.
+ */
+async function getLiveRegionText(
+  browser: WebdriverIO.Browser,
+  priority: 'polite' | 'assertive',
+): Promise<string> {
+  return await browser.execute(
+    (priority) =>
+      document.querySelector(`.blocklyAriaLiveRegion[aria-live="${priority}"]`)
+        ?.textContent ?? '',
+    priority,
+  );
+}
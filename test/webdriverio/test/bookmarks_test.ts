@@ -0,0 +1,54 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as chai from 'chai';
+import {Key} from 'webdriverio';
+import {
+  focusOnBlock,
+  getCurrentFocusedBlockId,
+  PAUSE_TIME,
+  sendKeyAndWait,
+  tabNavigateToWorkspace,
+  testFileLocations,
+  testSetup,
+} from './test_setup.js';
+
+suite('Bookmarks', function () {
+  // Setting timeout to unlimited as these tests take longer time to run
+  this.timeout(0);
+
+  // Clear the workspace and load start blocks
+  setup(async function () {
+    this.browser = await testSetup(testFileLocations.BASE);
+    await this.browser.pause(PAUSE_TIME);
+  });
+
+  test('Shift+digit sets a bookmark and the digit jumps to it', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'create_canvas_1');
+    await sendKeyAndWait(this.browser, [Key.Shift, '1']);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+
+    await sendKeyAndWait(this.browser, '1');
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'create_canvas_1',
+    );
+  });
+
+  test('K lists bookmarks in a menu', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'create_canvas_1');
+    await sendKeyAndWait(this.browser, [Key.Shift, '2']);
+    await sendKeyAndWait(this.browser, 'k');
+
+    const [item, extraItem] = await this.browser.$$(
+      '.blocklyContextMenu .blocklyMenuItem',
+    );
+    chai.assert.include(await item.getText(), '2:');
+    chai.assert.isUndefined(extraItem);
+  });
+});
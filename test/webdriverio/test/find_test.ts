@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly';
+import * as chai from 'chai';
+import {Key} from 'webdriverio';
+import {
+  getCurrentFocusedBlockId,
+  PAUSE_TIME,
+  sendKeyAndWait,
+  tabNavigateToWorkspace,
+  testFileLocations,
+  testSetup,
+} from './test_setup.js';
+
+suite('Find', function () {
+  // Setting timeout to unlimited as these tests take longer time to run
+  this.timeout(0);
+
+  // Clear the workspace and load start blocks
+  setup(async function () {
+    this.browser = await testSetup(testFileLocations.BASE);
+    await this.browser.pause(PAUSE_TIME);
+    // Answer the find prompt without showing a browser dialog.
+    await this.browser.execute(() => {
+      Blockly.dialog.setPrompt((message, defaultValue, callback) =>
+        callback('colo'),
+      );
+    });
+  });
+
+  test('F goes to the first match', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await sendKeyAndWait(this.browser, 'f');
+
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'set_background_color_1',
+    );
+  });
+
+  test('F3 and Shift+F3 cycle through matches', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await sendKeyAndWait(this.browser, 'f');
+
+    // Matches in shadow blocks are reported as the parent block.
+    await sendKeyAndWait(this.browser, Key.F3);
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'draw_circle_1',
+    );
+
+    await sendKeyAndWait(this.browser, Key.F3);
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'set_background_color_1',
+    );
+
+    await sendKeyAndWait(this.browser, [Key.Shift, Key.F3]);
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'draw_circle_1',
+    );
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly';
+import * as chai from 'chai';
+import {
+  focusOnBlock,
+  getCurrentFocusedBlockId,
+  PAUSE_TIME,
+  sendKeyAndWait,
+  tabNavigateToWorkspace,
+  testFileLocations,
+  testSetup,
+} from './test_setup.js';
+
+suite('Navigation history', function () {
+  // Setting timeout to unlimited as these tests take longer time to run
+  this.timeout(0);
+
+  // Clear the workspace and load start blocks
+  setup(async function () {
+    this.browser = await testSetup(testFileLocations.BASE);
+    await this.browser.pause(PAUSE_TIME);
+  });
+
+  test('[ and ] go back and forward after a stack jump', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+    await sendKeyAndWait(this.browser, 'b');
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'p5_setup_1',
+    );
+
+    await sendKeyAndWait(this.browser, '[');
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'draw_circle_1',
+    );
+
+    await sendKeyAndWait(this.browser, ']');
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'p5_setup_1',
+    );
+  });
+
+  test('Positions on deleted blocks are skipped', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+    await sendKeyAndWait(this.browser, 'b');
+    await this.browser.execute(() => {
+      Blockly.getMainWorkspace().getBlockById('draw_circle_1')?.dispose();
+    });
+
+    await sendKeyAndWait(this.browser, '[');
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'p5_setup_1',
+    );
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as chai from 'chai';
+import {Key} from 'webdriverio';
+import {
+  blockIsPresent,
+  focusOnBlock,
+  getCurrentFocusedBlockId,
+  getFocusedBlockType,
+  isDragging,
+  PAUSE_TIME,
+  tabNavigateToWorkspace,
+  testFileLocations,
+  testSetup,
+} from './test_setup.js';
+
+suite('Insert palette', function () {
+  // Setting timeout to unlimited as these tests take longer time to run
+  this.timeout(0);
+
+  // Clear the workspace and load start blocks
+  setup(async function () {
+    this.browser = await testSetup(testFileLocations.BASE);
+    await this.browser.pause(PAUSE_TIME);
+  });
+
+  test('Typing filters blocks and Enter starts an insert', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+    await this.browser.keys('i');
+    await this.browser.pause(PAUSE_TIME);
+    await this.browser.keys('repeat while');
+    await this.browser.pause(PAUSE_TIME);
+
+    const firstOption = await this.browser
+      .$('.blocklyBlockPaletteOptionActive')
+      .getText();
+    chai.assert.include(firstOption, 'repeat while');
+
+    await this.browser.keys(Key.Enter);
+    await this.browser.pause(PAUSE_TIME);
+    chai.assert.equal(
+      await getFocusedBlockType(this.browser),
+      'controls_whileUntil',
+    );
+    chai.assert.isTrue(await isDragging(this.browser));
+
+    await this.browser.keys(Key.Enter);
+    await this.browser.pause(PAUSE_TIME);
+    chai.assert.isFalse(await isDragging(this.browser));
+  });
+
+  test('Escape closes the palette without inserting', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+    await this.browser.keys('i');
+    await this.browser.pause(PAUSE_TIME);
+    await this.browser.keys(Key.Escape);
+    await this.browser.pause(PAUSE_TIME);
+
+    chai.assert.isFalse(
+      await this.browser.$('.blocklyBlockPalette').isExisting(),
+    );
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'draw_circle_1',
+    );
+    chai.assert.isTrue(await blockIsPresent(this.browser, 'draw_circle_1'));
+  });
+});
@@ -203,6 +203,75 @@ suite('Move tests', function () {
     // Abort move.
     await this.browser.keys(Key.Escape);
   });
+
+  test('Stepping back and forward through a move', async function () {
+    const BLOCK = 'p5_setup_1';
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, BLOCK);
+    const startCoordinate = await getCoordinate(this.browser, BLOCK);
+    await this.browser.keys('m');
+
+    await sendKeyAndWait(this.browser, [Key.Alt, Key.ArrowDown]);
+    const firstCoordinate = await getCoordinate(this.browser, BLOCK);
+    await sendKeyAndWait(this.browser, [Key.Alt, Key.ArrowRight]);
+    const secondCoordinate = await getCoordinate(this.browser, BLOCK);
+
+    await sendKeyAndWait(this.browser, [Key.Ctrl, 'z']);
+    chai.assert.deepEqual(
+      await getCoordinate(this.browser, BLOCK),
+      firstCoordinate,
+      'stepping back should undo the last move',
+    );
+    await sendKeyAndWait(this.browser, [Key.Ctrl, 'z']);
+    chai.assert.deepEqual(
+      await getCoordinate(this.browser, BLOCK),
+      startCoordinate,
+      'stepping back again should return to the start',
+    );
+    await sendKeyAndWait(this.browser, [Key.Ctrl, Key.Shift, 'z']);
+    await sendKeyAndWait(this.browser, [Key.Ctrl, Key.Shift, 'z']);
+    chai.assert.deepEqual(
+      await getCoordinate(this.browser, BLOCK),
+      secondCoordinate,
+      'stepping forward should redo the moves',
+    );
+
+    // Abort move.
+    await this.browser.keys(Key.Escape);
+  });
+
+  test('Large and fine unconstrained moves', async function () {
+    const BLOCK = 'p5_setup_1';
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, BLOCK);
+    await this.browser.keys('m');
+
+    const start = await getCoordinate(this.browser, BLOCK);
+    await sendKeyAndWait(this.browser, [Key.Alt, Key.ArrowRight]);
+    const normal = await getCoordinate(this.browser, BLOCK);
+    await sendKeyAndWait(this.browser, [Key.Alt, Key.Shift, Key.ArrowRight]);
+    const large = await getCoordinate(this.browser, BLOCK);
+    await sendKeyAndWait(this.browser, [Key.Ctrl, Key.Alt, Key.ArrowRight]);
+    const fine = await getCoordinate(this.browser, BLOCK);
+
+    const normalStep = normal.x - start.x;
+    chai.assert.isAbove(normalStep, 0, 'normal move should move right');
+    chai.assert.closeTo(
+      large.x - normal.x,
+      normalStep * 5,
+      1,
+      'large move should be five normal steps',
+    );
+    chai.assert.closeTo(
+      fine.x - large.x,
+      normalStep / 20,
+      0.1,
+      'fine move should be a twentieth of a normal step',
+    );
+
+    // Abort move.
+    await this.browser.keys(Key.Escape);
+  });
 });
 
 /**
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly';
+import * as chai from 'chai';
+import {Key} from 'webdriverio';
+import {
+  focusOnBlock,
+  PAUSE_TIME,
+  sendKeyAndWait,
+  tabNavigateToWorkspace,
+  testFileLocations,
+  testSetup,
+} from './test_setup.js';
+
+/**
+ * Returns the width and height of the canvas block.
+ *
+ * @param browser The active WebdriverIO Browser object.
+ * @returns The values of the WIDTH and HEIGHT fields.
+ */
+async function getCanvasSize(browser: WebdriverIO.Browser) {
+  return await browser.execute(() => {
+    const block = Blockly.getMainWorkspace().getBlockById('create_canvas_1');
+    return [block?.getFieldValue('WIDTH'), block?.getFieldValue('HEIGHT')];
+  });
+}
+
+suite('Replace', function () {
+  // Setting timeout to unlimited as these tests take longer time to run
+  this.timeout(0);
+
+  // Clear the workspace and load start blocks
+  setup(async function () {
+    this.browser = await testSetup(testFileLocations.BASE);
+    await this.browser.pause(PAUSE_TIME);
+    // Answer the find and replace prompts without showing browser dialogs.
+    await this.browser.execute(() => {
+      Blockly.dialog.setPrompt((message, defaultValue, callback) =>
+        callback(message.startsWith('Replace:') ? '400' : '300'),
+      );
+    });
+  });
+
+  test('Shift+F replaces in the current match', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'create_canvas_1');
+    await sendKeyAndWait(this.browser, [Key.Shift, 'f']);
+
+    chai.assert.deepEqual(await getCanvasSize(this.browser), [300, 300]);
+  });
+
+  test('Ctrl+Shift+F replaces every match and undoes at once', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await sendKeyAndWait(this.browser, [Key.Ctrl, Key.Shift, 'f']);
+    chai.assert.deepEqual(await getCanvasSize(this.browser), [300, 300]);
+
+    await sendKeyAndWait(this.browser, [Key.Ctrl, 'z']);
+    chai.assert.deepEqual(await getCanvasSize(this.browser), [400, 400]);
+  });
+});
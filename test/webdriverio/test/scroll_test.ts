@@ -71,4 +71,52 @@ suite('Scrolling into view', function () {
     });
     chai.assert.isTrue(inViewport);
   });
+
+  test('Page Down pans without moving the cursor', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    const before = await getViewport(this.browser);
+    await this.browser.keys(Key.PageDown);
+    await this.browser.pause(PAUSE_TIME);
+
+    const after = await getViewport(this.browser);
+    chai.assert.isAbove(after.top, before.top);
+    chai.assert.equal(after.cursor, before.cursor);
+  });
+
+  test('Plus and minus zoom in and out', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    const before = await getViewport(this.browser);
+    await this.browser.keys('=');
+    await this.browser.pause(PAUSE_TIME);
+    chai.assert.isAbove((await getViewport(this.browser)).scale, before.scale);
+
+    await this.browser.keys('0');
+    await this.browser.pause(PAUSE_TIME);
+    chai.assert.closeTo(
+      (await getViewport(this.browser)).scale,
+      before.scale,
+      0.001,
+    );
+    await this.browser.keys('-');
+    await this.browser.pause(PAUSE_TIME);
+    chai.assert.isBelow((await getViewport(this.browser)).scale, before.scale);
+  });
 });
+
+/**
+ * Gets the state of the main workspace's view.
+ *
+ * @param browser The webdriverio browser session.
+ * @returns A promise setting to the top of the view in workspace units, the
+ *     zoom level and the id of the node the cursor is on.
+ */
+function getViewport(browser: WebdriverIO.Browser) {
+  return browser.execute(() => {
+    const workspace = Blockly.getMainWorkspace() as Blockly.WorkspaceSvg;
+    return {
+      top: workspace.getMetricsManager().getViewMetrics(true).top,
+      scale: workspace.getScale(),
+      cursor: workspace.getCursor().getCurNode()?.getFocusableElement().id,
+    };
+  });
+}
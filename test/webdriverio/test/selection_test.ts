@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as chai from 'chai';
+import {
+  blockIsPresent,
+  focusOnBlock,
+  getCurrentFocusedBlockId,
+  PAUSE_TIME,
+  sendKeyAndWait,
+  tabNavigateToWorkspace,
+  testFileLocations,
+  testSetup,
+} from './test_setup.js';
+import {Key} from 'webdriverio';
+
+suite('Block selection', function () {
+  // Setting timeout to unlimited as these tests take longer time to run
+  this.timeout(0);
+
+  // Clear the workspace and load start blocks
+  setup(async function () {
+    this.browser = await testSetup(testFileLocations.BASE);
+    await this.browser.pause(PAUSE_TIME);
+  });
+
+  test('Shift + Down extends the selection and delete removes it', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'create_canvas_1');
+    await sendKeyAndWait(this.browser, [Key.Shift, Key.ArrowDown]);
+    chai.assert.equal(
+      await getCurrentFocusedBlockId(this.browser),
+      'set_background_color_1',
+    );
+
+    await sendKeyAndWait(this.browser, Key.Backspace);
+    chai.assert.isFalse(await blockIsPresent(this.browser, 'create_canvas_1'));
+    chai.assert.isFalse(
+      await blockIsPresent(this.browser, 'set_background_color_1'),
+    );
+    chai.assert.isTrue(await blockIsPresent(this.browser, 'p5_setup_1'));
+  });
+
+  test('Escape clears the selection', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'create_canvas_1');
+    await sendKeyAndWait(this.browser, [Key.Shift, Key.ArrowDown]);
+    await sendKeyAndWait(this.browser, Key.Escape);
+
+    await sendKeyAndWait(this.browser, Key.Backspace);
+    chai.assert.isTrue(await blockIsPresent(this.browser, 'create_canvas_1'));
+    chai.assert.isFalse(
+      await blockIsPresent(this.browser, 'set_background_color_1'),
+    );
+  });
+});
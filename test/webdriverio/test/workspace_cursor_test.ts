@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Blockly from 'blockly';
+import * as chai from 'chai';
+import {Key} from 'webdriverio';
+import {
+  focusOnBlock,
+  PAUSE_TIME,
+  sendKeyAndWait,
+  tabNavigateToWorkspace,
+  testFileLocations,
+  testSetup,
+} from './test_setup.js';
+
+suite('Workspace cursor', function () {
+  // Setting timeout to unlimited as these tests take longer time to run
+  this.timeout(0);
+
+  // Clear the workspace and load start blocks
+  setup(async function () {
+    this.browser = await testSetup(testFileLocations.BASE);
+    await this.browser.pause(PAUSE_TIME);
+  });
+
+  test('Shift+WASD moves the workspace cursor', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await sendKeyAndWait(this.browser, 'w');
+    const start = await getWorkspaceCursorTransform(this.browser);
+
+    await sendKeyAndWait(this.browser, [Key.Shift, 'd'], 2);
+    await sendKeyAndWait(this.browser, [Key.Shift, 's']);
+
+    const end = await getWorkspaceCursorTransform(this.browser);
+    if (!start) throw new Error('Workspace cursor was not placed');
+    chai.assert.deepEqual(end, {x: start.x + 40, y: start.y + 20});
+  });
+
+  test('Shift+WASD does nothing when a block is focused', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+    await sendKeyAndWait(this.browser, [Key.Shift, 'd']);
+
+    chai.assert.isNull(await getWorkspaceCursorTransform(this.browser));
+  });
+
+  test('Paste places the block at the workspace cursor', async function () {
+    await tabNavigateToWorkspace(this.browser);
+    await focusOnBlock(this.browser, 'draw_circle_1');
+    await this.browser.keys([Key.Ctrl, 'c']);
+    await sendKeyAndWait(this.browser, 'w');
+    await sendKeyAndWait(this.browser, [Key.Shift, 's'], 3);
+    const cursor = await getWorkspaceCursorTransform(this.browser);
+
+    await this.browser.keys([Key.Ctrl, 'v']);
+    await this.browser.pause(PAUSE_TIME);
+
+    const pastedLocation = await this.browser.execute(() => {
+      const block = Blockly.getFocusManager().getFocusedNode();
+      if (!(block instanceof Blockly.BlockSvg)) return null;
+      const {x, y} = block.getRelativeToSurfaceXY();
+      return {x, y};
+    });
+    chai.assert.deepEqual(pastedLocation, cursor);
+  });
+});
+
+/**
+ * Get the location of the workspace cursor indicator from its transform.
+ *
+ * @param browser The active WebdriverIO Browser object.
+ * @returns The location, or null if the indicator has not been placed.
+ */
+async function getWorkspaceCursorTransform(
+  browser: WebdriverIO.Browser,
+): Promise<{x: number; y: number} | null> {
+  return await browser.execute(() => {
+    const transform = document
+      .querySelector('.blocklyWorkspaceCursor')
+      ?.getAttribute('transform');
+    const match = transform?.match(/translate\(([-\d.]+), ([-\d.]+)\)/);
+    if (!match) return null;
+    return {x: Number(match[1]), y: Number(match[2])};
+  });
+}
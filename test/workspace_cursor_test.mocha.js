@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'jsdom-global/register';
+import * as Blockly from 'blockly';
+import {assert} from 'chai';
+import {KeyboardNavigation} from '../src/index';
+import {createWorkspace} from './test_helpers';
+
+suite('Workspace cursor', function () {
+  setup(function () {
+    Blockly.ShortcutRegistry.registry.reset();
+    Blockly.ShortcutItems.registerDefaultShortcuts();
+    Blockly.ContextMenuRegistry.registry.reset();
+    Blockly.ContextMenuItems.registerDefaultOptions();
+    const {workspace, cleanup} = createWorkspace({
+      toolbox: {
+        kind: 'flyoutToolbox',
+        contents: [{kind: 'block', type: 'text_print'}],
+      },
+    });
+    this.workspace = workspace;
+    this.jsdomCleanup = cleanup;
+    // Focusing and moving need these, and jsdom-global doesn't expose them.
+    // jsdom has no pointer events at all.
+    global.SVGElement = window.SVGElement;
+    global.FocusEvent = window.FocusEvent;
+    global.requestAnimationFrame = window.requestAnimationFrame;
+    global.PointerEvent = window.MouseEvent;
+    this.keyboardNav = new KeyboardNavigation(this.workspace);
+    this.controller = this.keyboardNav.navigationController;
+  });
+
+  teardown(function () {
+    this.keyboardNav.dispose();
+    delete global.SVGElement;
+    delete global.FocusEvent;
+    delete global.requestAnimationFrame;
+    delete global.PointerEvent;
+    this.jsdomCleanup();
+  });
+
+  test('Blocks inserted from the flyout go to the workspace cursor', function () {
+    Blockly.getFocusManager().focusTree(this.workspace);
+    const navigation = this.controller.navigation;
+    navigation.getWorkspaceCursorIndicator(this.workspace).moveTo(100, 150);
+    const flyoutWorkspace = this.workspace.getFlyout().getWorkspace();
+    Blockly.getFocusManager().focusNode(flyoutWorkspace.getTopBlocks()[0]);
+
+    this.controller.enterAction.insertBlock(this.workspace, () => {
+      const block = this.workspace.newBlock('text_print');
+      block.initSvg();
+      block.render();
+      return block;
+    });
+    const [block] = this.workspace.getTopBlocks(false);
+    const {x, y} = block.getRelativeToSurfaceXY();
+    assert.deepEqual({x, y}, {x: 100, y: 150});
+  });
+});